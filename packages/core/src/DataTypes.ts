@@ -0,0 +1,90 @@
+export const ANY_TYPE = 'any';
+
+export type Coercion = (value: any) => any;
+
+export interface ConnectionCheck {
+  allowed: boolean;
+  reason?: string;
+  coerce?: Coercion;  // Applied to values flowing across the connection
+  cycle?: string[];     // Ids of the nodes that would form a loop
+  replaces?: string[];  // Ids of edges removed to make room on a full port
+}
+
+export class DataTypeRegistry {
+  private types: Set<string> = new Set([ANY_TYPE]);
+  // from -> to -> coercion (null when values pass through unchanged)
+  private compatibility: Map<string, Map<string, Coercion | null>> = new Map();
+
+  public register(type: string): void {
+    this.types.add(type);
+  }
+
+  public has(type: string): boolean {
+    return this.types.has(type);
+  }
+
+  public getTypes(): string[] {
+    return Array.from(this.types);
+  }
+
+  /**
+   * Allow values of one type to flow into ports of another type
+   * @param from Data type of the output port
+   * @param to Data type of the input port
+   * @param coerce Optional conversion applied to transferred values
+   */
+  public setCompatible(from: string, to: string, coerce?: Coercion): void {
+    this.register(from);
+    this.register(to);
+    if (!this.compatibility.has(from)) {
+      this.compatibility.set(from, new Map());
+    }
+    this.compatibility.get(from)!.set(to, coerce || null);
+  }
+
+  public removeCompatible(from: string, to: string): void {
+    this.compatibility.get(from)?.delete(to);
+  }
+
+  /**
+   * Check whether an output of type `from` may feed an input of type `to`
+   */
+  public check(from: string, to: string): ConnectionCheck {
+    if (from === to || from === ANY_TYPE || to === ANY_TYPE) {
+      return { allowed: true };
+    }
+
+    const targets = this.compatibility.get(from);
+    if (targets && targets.has(to)) {
+      const coerce = targets.get(to);
+      return coerce ? { allowed: true, coerce } : { allowed: true };
+    }
+
+    return { allowed: false, reason: `Cannot connect ${from} output to ${to} input` };
+  }
+
+  public isCompatible(from: string, to: string): boolean {
+    return this.check(from, to).allowed;
+  }
+
+  public coerce(value: any, from: string, to: string): any {
+    const check = this.check(from, to);
+    return check.coerce ? check.coerce(value) : value;
+  }
+}
+
+/**
+ * Create a registry with the built-in number, boolean and string types
+ */
+export function createDefaultDataTypes(): DataTypeRegistry {
+  const registry = new DataTypeRegistry();
+  registry.register('number');
+  registry.register('boolean');
+  registry.register('string');
+  registry.setCompatible('number', 'string', value => String(value));
+  registry.setCompatible('boolean', 'string', value => String(value));
+  registry.setCompatible('boolean', 'number', value => Number(value));
+  return registry;
+}
+
+export const defaultDataTypes = createDefaultDataTypes();
@@ -0,0 +1,383 @@
+import type { Graph, GraphData } from './Graph';
+import { Node, NodeData } from './Node';
+import { Port, PortData } from './Port';
+import type { Edge, EdgeData } from './Edge';
+import { ANY_TYPE } from './DataTypes';
+
+export type PortSpec = Omit<PortData, 'nodeId'>;
+
+export interface FieldChange {
+  field: string;  // e.g. name, position, properties.color, sourcePortId
+  from: any;
+  to: any;
+}
+
+export interface NodeModification {
+  id: string;
+  changes: FieldChange[];
+}
+
+export interface PortReference {
+  nodeId: string;
+  port: PortSpec;
+}
+
+export type PortField = 'name' | 'type' | 'dataType' | 'maxConnections' | 'value';
+
+// Change of one port field, typed by the field it touches
+export type PortFieldChange = { [K in PortField]: { field: K; from: PortSpec[K]; to: PortSpec[K] } }[PortField];
+
+export interface PortModification {
+  nodeId: string;
+  portId: string;
+  changes: PortFieldChange[];
+}
+
+export interface EdgeModification {
+  id: string;
+  changes: FieldChange[];
+  edge: EdgeData;  // Edge as it is in the new document
+}
+
+export interface ChangeSet<T, M> {
+  added: T[];
+  removed: T[];
+  modified: M[];
+}
+
+/**
+ * Differences between two documents. Ports of added or removed nodes are part
+ * of the node data and not listed again under ports.
+ */
+export interface GraphDiff {
+  graph: FieldChange[];
+  nodes: ChangeSet<NodeData, NodeModification>;
+  ports: ChangeSet<PortReference, PortModification>;
+  edges: ChangeSet<EdgeData, EdgeModification>;
+}
+
+export interface PatchFailure {
+  kind: 'graph' | 'node' | 'port' | 'edge';
+  id: string;
+  reason: string;
+}
+
+/**
+ * Structural equality for JSON-like values; a missing key equals an undefined one
+ */
+export function isEqual(a: any, b: any): boolean {
+  if (a === b) return true;
+  if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) return false;
+  if (Array.isArray(a) !== Array.isArray(b)) return false;
+  if (Array.isArray(a)) {
+    return a.length === b.length && a.every((item, i) => isEqual(item, b[i]));
+  }
+  const keys = new Set([...Object.keys(a), ...Object.keys(b)]);
+  return Array.from(keys).every(key => isEqual(a[key], b[key]));
+}
+
+const portsOf = (node: NodeData): PortSpec[] => [...(node.inputs || []), ...(node.outputs || [])];
+
+function diffFields(fields: Array<[string, any, any]>): FieldChange[] {
+  return fields
+    .filter(([, from, to]) => !isEqual(from, to))
+    .map(([field, from, to]) => ({ field, from, to }));
+}
+
+function diffNode(a: NodeData, b: NodeData): FieldChange[] {
+  const properties = new Set([...Object.keys(a.properties || {}), ...Object.keys(b.properties || {})]);
+  return diffFields([
+    ['name', a.name, b.name],
+    ['type', a.type, b.type],
+    ['position', { x: a.x, y: a.y }, { x: b.x, y: b.y }],
+    ['ports', portsOf(a).map(port => port.id), portsOf(b).map(port => port.id)],
+    ...Array.from(properties).map((key): [string, any, any] =>
+      [`properties.${key}`, a.properties?.[key], b.properties?.[key]]),
+    ['subgraph', a.subgraph, b.subgraph]
+  ]);
+}
+
+function diffPort(a: PortSpec, b: PortSpec): PortFieldChange[] {
+  return diffFields([
+    ['name', a.name, b.name],
+    ['type', a.type, b.type],
+    ['dataType', a.dataType || ANY_TYPE, b.dataType || ANY_TYPE],
+    ['maxConnections', a.maxConnections, b.maxConnections],
+    ['value', a.value, b.value]
+  ]) as PortFieldChange[];
+}
+
+/**
+ * Compare two documents by node, port and edge id
+ * @param a Old document
+ * @param b New document
+ */
+export function diffGraphs(a: GraphData, b: GraphData): GraphDiff {
+  const diff: GraphDiff = {
+    graph: diffFields([['name', a.name, b.name]]),
+    nodes: { added: [], removed: [], modified: [] },
+    ports: { added: [], removed: [], modified: [] },
+    edges: { added: [], removed: [], modified: [] }
+  };
+
+  const oldNodes = new Map(a.nodes.map(node => [node.id, node]));
+  const newNodes = new Map(b.nodes.map(node => [node.id, node]));
+  a.nodes.forEach(node => {
+    if (!newNodes.has(node.id)) diff.nodes.removed.push(node);
+  });
+  b.nodes.forEach(node => {
+    const previous = oldNodes.get(node.id);
+    if (!previous) {
+      diff.nodes.added.push(node);
+      return;
+    }
+    const changes = diffNode(previous, node);
+    if (changes.length > 0) {
+      diff.nodes.modified.push({ id: node.id, changes });
+    }
+
+    const oldPorts = new Map(portsOf(previous).map(port => [port.id, port]));
+    const newPorts = new Map(portsOf(node).map(port => [port.id, port]));
+    portsOf(previous).forEach(port => {
+      if (!newPorts.has(port.id)) diff.ports.removed.push({ nodeId: node.id, port });
+    });
+    portsOf(node).forEach(port => {
+      const previousPort = oldPorts.get(port.id);
+      if (!previousPort) {
+        diff.ports.added.push({ nodeId: node.id, port });
+        return;
+      }
+      const portChanges = diffPort(previousPort, port);
+      if (portChanges.length > 0) {
+        diff.ports.modified.push({ nodeId: node.id, portId: port.id, changes: portChanges });
+      }
+    });
+  });
+
+  const oldEdges = new Map(a.edges.map(edge => [edge.id, edge]));
+  const newEdges = new Map(b.edges.map(edge => [edge.id, edge]));
+  a.edges.forEach(edge => {
+    if (!newEdges.has(edge.id)) diff.edges.removed.push(edge);
+  });
+  b.edges.forEach(edge => {
+    const previous = oldEdges.get(edge.id);
+    if (!previous) {
+      diff.edges.added.push(edge);
+      return;
+    }
+    const changes = diffFields([
+      ['sourcePortId', previous.sourcePortId, edge.sourcePortId],
+      ['targetPortId', previous.targetPortId, edge.targetPortId]
+    ]);
+    if (changes.length > 0) {
+      diff.edges.modified.push({ id: edge.id, changes, edge });
+    }
+  });
+
+  return diff;
+}
+
+export function isEmptyDiff(diff: GraphDiff): boolean {
+  return diff.graph.length === 0 &&
+    [diff.nodes, diff.ports, diff.edges].every(set =>
+      set.added.length === 0 && set.removed.length === 0 && set.modified.length === 0
+    );
+}
+
+/**
+ * Apply a diff to a live graph through its add, remove and setter methods, so
+ * the usual events fire. Changes that cannot be applied, such as an edge the
+ * graph rejects, are skipped and returned as failures.
+ * @param graph Graph to change
+ * @param patch Diff produced by diffGraphs
+ */
+export function applyPatch(graph: Graph, patch: GraphDiff): PatchFailure[] {
+  const failures: PatchFailure[] = [];
+  const fail = (kind: PatchFailure['kind'], id: string, reason: string) => failures.push({ kind, id, reason });
+  // Edges that existed before get their failures reported as removals
+  const connect = (edge: EdgeData, existed = false) => {
+    const refuse = (reason: string) => fail('edge', edge.id, existed ? `Edge ${edge.id} was removed: ${reason}` : reason);
+    if (graph.getEdge(edge.id)) {
+      refuse(`Edge ${edge.id} already exists`);
+      return;
+    }
+    const sourcePort = graph.getPort(edge.sourcePortId);
+    const targetPort = graph.getPort(edge.targetPortId);
+    if (!sourcePort || !targetPort) {
+      refuse(`Port ${!sourcePort ? edge.sourcePortId : edge.targetPortId} not found`);
+      return;
+    }
+    const check = graph.checkConnection(sourcePort, targetPort);
+    if (!check.allowed) {
+      refuse(check.reason || 'Connection not allowed');
+      return;
+    }
+    if (!graph.addEdge(sourcePort, targetPort, edge.id)) {
+      refuse('Connection was rejected');
+    }
+  };
+  const addPort = (node: Node, port: PortSpec) => {
+    const created = new Port({ ...port, nodeId: node.getId() });
+    if (port.type === 'input') {
+      node.addInput(created);
+    } else {
+      node.addOutput(created);
+    }
+  };
+  const removePort = (node: Node, port: Port) => {
+    graph.getEdgesOfPort(port.getId()).forEach(edge => graph.removeEdge(edge.getId()));
+    if (port.getType() === 'input') {
+      node.removeInput(port.getId());
+    } else {
+      node.removeOutput(port.getId());
+    }
+  };
+  // Remove the edges of a changed port that its new settings no longer allow
+  const revalidate = (port: Port) => {
+    const drop = (edge: Edge, reason: string) => {
+      graph.removeEdge(edge.getId());
+      fail('edge', edge.getId(), `Edge ${edge.getId()} was removed: ${reason}`);
+    };
+    const kept = graph.getEdgesOfPort(port.getId()).filter(edge => {
+      const check = edge.getSourcePort().checkConnection(edge.getTargetPort(), graph.getDataTypes());
+      if (!check.allowed) drop(edge, check.reason || 'Connection not allowed');
+      return check.allowed;
+    });
+    const limit = port.getMaxConnections();
+    kept.slice(limit).forEach(edge => drop(edge, `Port ${port.getName()} accepts at most ${limit} connection${limit === 1 ? '' : 's'}`));
+  };
+
+  patch.graph.forEach(change => {
+    if (change.field === 'name') graph.setName(change.to);
+  });
+
+  // Removals first so that ids can be reused by additions
+  [...patch.edges.removed, ...patch.edges.modified].forEach(edge => {
+    if (graph.getEdge(edge.id)) {
+      graph.removeEdge(edge.id);
+    } else {
+      fail('edge', edge.id, `Edge ${edge.id} not found`);
+    }
+  });
+  patch.ports.removed.forEach(({ nodeId, port }) => {
+    const node = graph.getNode(nodeId);
+    const live = node && (node.getInput(port.id) || node.getOutput(port.id));
+    if (node && live) {
+      removePort(node, live);
+    } else {
+      fail('port', port.id, `Port ${port.id} not found on node ${nodeId}`);
+    }
+  });
+  patch.nodes.removed.forEach(node => {
+    if (!graph.getNode(node.id)) {
+      fail('node', node.id, `Node ${node.id} not found`);
+    } else if (!graph.removeNode(node.id)) {
+      fail('node', node.id, `Removal of node ${node.id} was rejected`);
+    }
+  });
+
+  patch.nodes.added.forEach(node => {
+    if (graph.getNode(node.id)) {
+      fail('node', node.id, `Node ${node.id} already exists`);
+    } else if (!graph.addNode(new Node(node))) {
+      fail('node', node.id, `Node ${node.id} was rejected`);
+    }
+  });
+
+  patch.nodes.modified.forEach(({ id, changes }) => {
+    if (!graph.getNode(id)) {
+      fail('node', id, `Node ${id} not found`);
+      return;
+    }
+    let node = graph.getNode(id)!;
+    // A node cannot change its type in place; replace it and restore its edges
+    const typeChange = changes.find(change => change.field === 'type');
+    if (typeChange) {
+      const edges = graph.getEdgesOfNode(id).map(edge => edge.toJSON());
+      const data = { ...node.toJSON(), type: typeChange.to };
+      if (!graph.removeNode(id)) {
+        // The old node stays; the remaining changes still apply to it
+        fail('node', id, `Removal of node ${id} was rejected`);
+      } else {
+        const replaced = graph.addNode(new Node(data));
+        edges.forEach(edge => connect(edge, true));
+        if (!replaced) {
+          fail('node', id, `Node ${id} was rejected`);
+          return;
+        }
+        node = replaced;
+      }
+    }
+
+    changes.forEach(change => {
+      if (change.field === 'name') {
+        node.setName(change.to);
+      } else if (change.field === 'position') {
+        if (!node.setPosition(change.to.x, change.to.y)) {
+          fail('node', id, `Move of node ${id} was rejected`);
+        }
+      } else if (change.field === 'subgraph') {
+        node.setSubgraph(change.to);
+      } else if (change.field.startsWith('properties.')) {
+        const key = change.field.slice('properties.'.length);
+        // A property missing on the target side is removed, not set to undefined
+        if (change.to === undefined) {
+          node.removeProperty(key);
+        } else {
+          node.setProperty(key, change.to);
+        }
+      }
+      // 'ports' only summarizes the port changes applied below
+    });
+  });
+
+  patch.ports.added.forEach(({ nodeId, port }) => {
+    const node = graph.getNode(nodeId);
+    if (!node) {
+      fail('port', port.id, `Node ${nodeId} not found`);
+    } else if (graph.getPort(port.id)) {
+      fail('port', port.id, `Port ${port.id} already exists`);
+    } else {
+      addPort(node, port);
+    }
+  });
+
+  patch.ports.modified.forEach(({ nodeId, portId, changes }) => {
+    const node = graph.getNode(nodeId);
+    const port = node && (node.getInput(portId) || node.getOutput(portId));
+    if (!node || !port) {
+      fail('port', portId, `Port ${portId} not found on node ${nodeId}`);
+      return;
+    }
+    // A port cannot change direction in place; replace it and reconnect what still fits
+    if (changes.some(change => change.field === 'type')) {
+      const edges = graph.getEdgesOfPort(portId).map(edge => edge.toJSON());
+      const data = changes.reduce<PortData>((result, change) => ({ ...result, [change.field]: change.to }), port.toJSON());
+      removePort(node, port);
+      addPort(node, data);
+      edges.forEach(edge => connect(edge, true));
+      return;
+    }
+    changes.forEach(change => {
+      switch (change.field) {
+        case 'name':
+          port.setName(change.to);
+          break;
+        case 'dataType':
+          port.setDataType(change.to);
+          break;
+        case 'maxConnections':
+          port.setMaxConnections(change.to);
+          break;
+        case 'value':
+          port.setValue(change.to);
+          break;
+      }
+    });
+    revalidate(port);
+  });
+
+  [...patch.edges.added, ...patch.edges.modified.map(({ edge }) => edge)].forEach(edge => connect(edge));
+
+  return failures;
+}
@@ -3,6 +3,8 @@ import { Port } from './Port';
 import { Bounds } from './QuadTree';
 import { Node } from './Node';
 import { Cache } from './Cache';
+import { CubicBezier, getBezierBounds, getEdgeCurve } from './Geometry';
+import { Coercion, DataTypeRegistry, defaultDataTypes } from './DataTypes';
 
 export interface EdgeEvents {
   'connected': [sourcePort: Port, targetPort: Port];
@@ -21,26 +23,40 @@ export class Edge extends EventEmitter<EdgeEvents> {
   private targetPort: Port;
   private sourceNode: Node;
   private targetNode: Node;
+  private coerce?: Coercion;
 
   // Use unified cache management
   private cache = new Cache<any>();
 
-  constructor(data: EdgeData, portMap: Map<string, Port>, nodeMap: Map<string, Node>) {
+  constructor(
+    data: EdgeData,
+    portMap: Map<string, Port>,
+    nodeMap: Map<string, Node>,
+    dataTypes: DataTypeRegistry = defaultDataTypes
+  ) {
     super();
     this.id = data.id;
     const sourcePort = portMap.get(data.sourcePortId);
     const targetPort = portMap.get(data.targetPortId);
-    if (!sourcePort || !targetPort) {
-      throw new Error('Port not found');
+    if (!sourcePort) {
+      throw new Error(`Edge ${data.id}: source port ${data.sourcePortId} not found`);
+    }
+    if (!targetPort) {
+      throw new Error(`Edge ${data.id}: target port ${data.targetPortId} not found`);
     }
 
     // Validate port types
     if (sourcePort.getType() === targetPort.getType()) {
-      throw new Error('Cannot connect ports of the same type');
+      throw new Error(`Edge ${data.id}: cannot connect ports of the same type`);
     }
     if (sourcePort.getType() === 'input') {
-      throw new Error('Source port cannot be an input port');
+      throw new Error(`Edge ${data.id}: source port cannot be an input port`);
+    }
+    const check = dataTypes.check(sourcePort.getDataType(), targetPort.getDataType());
+    if (!check.allowed) {
+      throw new Error(`Edge ${data.id}: ${check.reason}`);
     }
+    this.coerce = check.coerce;
 
     this.sourcePort = sourcePort;
     this.targetPort = targetPort;
@@ -48,7 +64,7 @@ export class Edge extends EventEmitter<EdgeEvents> {
     const sourceNode = nodeMap.get(sourcePort.getNodeId());
     const targetNode = nodeMap.get(targetPort.getNodeId());
     if (!sourceNode || !targetNode) {
-      throw new Error('Node not found');
+      throw new Error(`Edge ${data.id}: node of port ${!sourceNode ? sourcePort.getNodeId() : targetPort.getNodeId()} not found`);
     }
     this.sourceNode = sourceNode;
     this.targetNode = targetNode;
@@ -80,22 +96,35 @@ export class Edge extends EventEmitter<EdgeEvents> {
     };
   }
 
-  public validate(): boolean { return true; }
-  public transfer(): void { }
+  /**
+   * Check that the edge still connects an output to a compatible input
+   * @param dataTypes Data type compatibility table
+   */
+  public validate(dataTypes: DataTypeRegistry = defaultDataTypes): boolean {
+    return this.sourcePort.canConnect(this.targetPort, dataTypes);
+  }
+
+  /**
+   * Push the current value of the source port into the target port,
+   * converting it when the port data types differ
+   */
+  public transfer(): void {
+    const value = this.sourcePort.getValue();
+    this.targetPort.setValue(this.coerce ? this.coerce(value) : value);
+  }
+
+  public getCurve(): CubicBezier {
+    return this.cache.useCache('curve', () =>
+      getEdgeCurve(this.getSourcePosition(), this.getTargetPosition())
+    );
+  }
 
+  /**
+   * Box around the drawn curve; cleared together with the rest of the cache
+   * when an end node moves or resizes
+   */
   public getBounds(): Bounds {
-    return this.cache.useCache('bounds', () => {
-      const sourcePos = this.getSourcePosition();
-      const targetPos = this.getTargetPosition();
-
-      // Calculate edge bounding box
-      const x = Math.min(sourcePos.x, targetPos.x);
-      const y = Math.min(sourcePos.y, targetPos.y);
-      const width = Math.abs(targetPos.x - sourcePos.x);
-      const height = Math.abs(targetPos.y - sourcePos.y);
-
-      return { x, y, width, height };
-    });
+    return this.cache.useCache('bounds', () => getBezierBounds(this.getCurve()));
   }
 
   private getSourcePosition(): { x: number; y: number } {
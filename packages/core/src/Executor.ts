@@ -0,0 +1,261 @@
+import { EventEmitter } from './EventEmitter';
+import { Graph } from './Graph';
+import { Node } from './Node';
+import { Edge } from './Edge';
+import { SUBGRAPH_INPUT_TYPE, SUBGRAPH_OUTPUT_TYPE, SUBGRAPH_PORT_PROPERTY } from './Subgraph';
+
+export type ComputeInputs = Record<string, any>;
+export type ComputeOutputs = Record<string, any>;
+
+/**
+ * Computes the outputs of a node from its inputs.
+ * Inputs and outputs are keyed by port name.
+ */
+export type ComputeFunction = (inputs: ComputeInputs, node: Node) => ComputeOutputs | void;
+
+export type NodeExecutionStatus = 'success' | 'error' | 'skipped';
+
+export interface NodeExecutionResult {
+  nodeId: string;
+  status: NodeExecutionStatus;
+  outputs: ComputeOutputs;
+  error?: Error;
+}
+
+export interface ExecutionResult {
+  success: boolean;
+  order: string[];
+  cyclic: string[];  // Nodes that were not run because they are part of a cycle
+  results: Map<string, NodeExecutionResult>;
+  errors: Map<string, Error>;
+}
+
+export interface ExecutorEvents {
+  'execution:start': [];
+  'node:executed': [result: NodeExecutionResult];
+  'execution:end': [result: ExecutionResult];
+}
+
+export interface ExecutorOptions {
+  computes?: Record<string, ComputeFunction>;
+}
+
+export class Executor extends EventEmitter<ExecutorEvents> {
+  private graph: Graph;
+  private computes: Map<string, ComputeFunction>;
+
+  constructor(graph: Graph, options: ExecutorOptions = {}) {
+    super();
+    this.graph = graph;
+    this.computes = new Map(Object.entries(options.computes || {}));
+  }
+
+  /**
+   * Register the compute function used for every node of the given type
+   * @param type Node type
+   * @param compute Compute function
+   */
+  public registerCompute(type: string, compute: ComputeFunction): void {
+    this.computes.set(type, compute);
+  }
+
+  public unregisterCompute(type: string): void {
+    this.computes.delete(type);
+  }
+
+  /**
+   * Resolve the compute function of a node: functions registered on the executor
+   * take precedence over the one declared in the graph's node registry
+   */
+  public getCompute(node: Node): ComputeFunction | undefined {
+    return this.computes.get(node.getType()) || this.graph.getRegistry()?.get(node.getType())?.compute;
+  }
+
+  /**
+   * Execute the graph once.
+   * Nodes run in topological order; a node without a compute function keeps
+   * the current values of its output ports. Nodes downstream of a failed
+   * node are skipped. Nodes that are part of a cycle fail without running, and
+   * the nodes downstream of them are skipped.
+   */
+  public run(): ExecutionResult {
+    this.emit('execution:start');
+
+    const { order, cyclic } = this.getExecutionOrder();
+    const outgoing = this.getOutgoingEdges();
+    const results = new Map<string, NodeExecutionResult>();
+    const errors = new Map<string, Error>();
+    const failed = new Set<string>();
+
+    cyclic.forEach(node => {
+      const error = new Error(`Node ${node.getId()} is part of a cycle and cannot be executed`);
+      const result: NodeExecutionResult = { nodeId: node.getId(), status: 'error', outputs: {}, error };
+      results.set(node.getId(), result);
+      errors.set(node.getId(), error);
+      failed.add(node.getId());
+      this.emit('node:executed', result);
+    });
+
+    order.forEach(node => {
+      const result = this.executeNode(node, failed);
+      results.set(node.getId(), result);
+      if (result.status !== 'success') {
+        failed.add(node.getId());
+        if (result.status === 'error' && result.error) {
+          errors.set(node.getId(), result.error);
+        }
+      } else {
+        (outgoing.get(node.getId()) || []).forEach(edge => edge.transfer());
+      }
+      this.emit('node:executed', result);
+    });
+
+    const executionResult: ExecutionResult = {
+      success: errors.size === 0,
+      order: order.map(node => node.getId()),
+      cyclic: cyclic.map(node => node.getId()),
+      results,
+      errors
+    };
+    this.emit('execution:end', executionResult);
+    return executionResult;
+  }
+
+  private executeNode(node: Node, failed: Set<string>): NodeExecutionResult {
+    const nodeId = node.getId();
+    const failedUpstream = this.getUpstreamNodeIds(node).find(id => failed.has(id));
+    if (failedUpstream) {
+      return {
+        nodeId,
+        status: 'skipped',
+        outputs: {},
+        error: new Error(`Skipped because upstream node ${failedUpstream} failed`)
+      };
+    }
+
+    const inputs: ComputeInputs = {};
+    node.getInputs().forEach(port => {
+      inputs[port.getName()] = port.getValue();
+    });
+
+    try {
+      if (node.isComposite()) {
+        this.executeSubgraph(node);
+      }
+      const compute = node.isComposite() ? undefined : this.getCompute(node);
+      const computed = compute ? compute(inputs, node) || {} : {};
+      const outputs: ComputeOutputs = {};
+      node.getOutputs().forEach(port => {
+        if (port.getName() in computed) {
+          port.setValue(computed[port.getName()]);
+        }
+        outputs[port.getName()] = port.getValue();
+      });
+      return { nodeId, status: 'success', outputs };
+    } catch (error) {
+      return {
+        nodeId,
+        status: 'error',
+        outputs: {},
+        error: error instanceof Error ? error : new Error(String(error))
+      };
+    }
+  }
+
+  /**
+   * Run the body of a composite node: composite input values are fed through the
+   * inner input boundary nodes, and the values reaching the output boundary nodes
+   * become the composite outputs
+   */
+  private executeSubgraph(node: Node): void {
+    const inner = this.graph.enterSubgraph(node.getId());
+    if (!inner) return;
+
+    const boundaryPortId = (boundary: Node) => boundary.getProperty<string>(SUBGRAPH_PORT_PROPERTY);
+    inner.getNodes()
+      .filter(boundary => boundary.getType() === SUBGRAPH_INPUT_TYPE)
+      .forEach(boundary => {
+        const input = node.getInput(boundaryPortId(boundary) || '');
+        boundary.getOutputs().forEach(port => port.setValue(input?.getValue()));
+      });
+
+    const result = new Executor(inner, { computes: Object.fromEntries(this.computes) }).run();
+    if (!result.success) {
+      const [nodeId, error] = Array.from(result.errors.entries())[0];
+      throw new Error(`Subgraph node ${nodeId} failed: ${error.message}`);
+    }
+
+    inner.getNodes()
+      .filter(boundary => boundary.getType() === SUBGRAPH_OUTPUT_TYPE)
+      .forEach(boundary => {
+        const output = node.getOutput(boundaryPortId(boundary) || '');
+        const [port] = boundary.getInputs();
+        if (output && port) {
+          output.setValue(port.getValue());
+        }
+      });
+  }
+
+  private getUpstreamNodeIds(node: Node): string[] {
+    return this.graph.getEdgesOfNode(node.getId())
+      .filter(edge => edge.getTargetPort().getNodeId() === node.getId())
+      .map(edge => edge.getSourcePort().getNodeId());
+  }
+
+  private getOutgoingEdges(): Map<string, Edge[]> {
+    const outgoing = new Map<string, Edge[]>();
+    this.graph.getEdges().forEach(edge => {
+      const nodeId = edge.getSourcePort().getNodeId();
+      if (!outgoing.has(nodeId)) {
+        outgoing.set(nodeId, []);
+      }
+      outgoing.get(nodeId)!.push(edge);
+    });
+    return outgoing;
+  }
+
+  /**
+   * Order nodes so that every node runs after the nodes feeding it.
+   * Cycle members cannot be ordered: they are returned separately and left
+   * out of the order together with their edges.
+   */
+  private getExecutionOrder(): { order: Node[]; cyclic: Node[] } {
+    const cycles = this.graph.findCycles();
+    if (cycles.length === 0) {
+      return { order: this.graph.topologicalSort(), cyclic: [] };
+    }
+
+    const cyclicIds = new Set(([] as string[]).concat(...cycles));
+    const cyclic = Array.from(cyclicIds)
+      .map(nodeId => this.graph.getNode(nodeId))
+      .filter((node): node is Node => node !== undefined);
+
+    // Kahn's algorithm over the nodes outside of every cycle
+    const nodes = this.graph.getNodes().filter(node => !cyclicIds.has(node.getId()));
+    const successors = new Map<string, string[]>();
+    const inDegree = new Map<string, number>();
+    nodes.forEach(node => inDegree.set(node.getId(), 0));
+    this.graph.getEdges().forEach(edge => {
+      const sourceId = edge.getSourcePort().getNodeId();
+      const targetId = edge.getTargetPort().getNodeId();
+      if (!inDegree.has(sourceId) || !inDegree.has(targetId)) return;
+      if (!successors.has(sourceId)) {
+        successors.set(sourceId, []);
+      }
+      successors.get(sourceId)!.push(targetId);
+      inDegree.set(targetId, inDegree.get(targetId)! + 1);
+    });
+
+    const order = nodes.filter(node => inDegree.get(node.getId()) === 0);
+    for (let i = 0; i < order.length; i++) {
+      (successors.get(order[i].getId()) || []).forEach(targetId => {
+        const degree = inDegree.get(targetId)! - 1;
+        inDegree.set(targetId, degree);
+        if (degree === 0) {
+          order.push(this.graph.getNode(targetId)!);
+        }
+      });
+    }
+    return { order, cyclic };
+  }
+}
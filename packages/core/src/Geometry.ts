@@ -0,0 +1,108 @@
+import { Bounds } from './QuadTree';
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+export interface CubicBezier {
+  start: Point;
+  control1: Point;
+  control2: Point;
+  end: Point;
+}
+
+/**
+ * Curve drawn for an edge: leaves the source and enters the target horizontally
+ */
+export function getEdgeCurve(source: Point, target: Point): CubicBezier {
+  const dx = target.x - source.x;
+  return {
+    start: { ...source },
+    control1: { x: source.x + dx * 0.5, y: source.y },
+    control2: { x: target.x - dx * 0.5, y: target.y },
+    end: { ...target }
+  };
+}
+
+/**
+ * Point on a cubic bezier curve at t in [0, 1]
+ */
+export function getBezierPoint(curve: CubicBezier, t: number): Point {
+  const { start, control1, control2, end } = curve;
+  const mt = 1 - t;
+  const a = mt * mt * mt;
+  const b = 3 * mt * mt * t;
+  const c = 3 * mt * t * t;
+  const d = t * t * t;
+  return {
+    x: a * start.x + b * control1.x + c * control2.x + d * end.x,
+    y: a * start.y + b * control1.y + c * control2.y + d * end.y
+  };
+}
+
+// Parameters in (0, 1) where one coordinate of the curve has a turning point
+function extrema(p0: number, p1: number, p2: number, p3: number): number[] {
+  // Derivative divided by 3: a t^2 + b t + c
+  const a = p3 - 3 * p2 + 3 * p1 - p0;
+  const b = 2 * (p0 - 2 * p1 + p2);
+  const c = p1 - p0;
+  let roots: number[];
+  if (Math.abs(a) < 1e-12) {
+    roots = Math.abs(b) < 1e-12 ? [] : [-c / b];
+  } else {
+    const discriminant = b * b - 4 * a * c;
+    if (discriminant < 0) return [];
+    const root = Math.sqrt(discriminant);
+    roots = [(-b + root) / (2 * a), (-b - root) / (2 * a)];
+  }
+  return roots.filter(t => t > 0 && t < 1);
+}
+
+/**
+ * Tight bounding box of a cubic bezier curve, including parts that bulge past
+ * the end points
+ */
+export function getBezierBounds(curve: CubicBezier): Bounds {
+  const { start, control1, control2, end } = curve;
+  const points = [start, end];
+  [...extrema(start.x, control1.x, control2.x, end.x), ...extrema(start.y, control1.y, control2.y, end.y)]
+    .forEach(t => points.push(getBezierPoint(curve, t)));
+  return getPointsBounds(points);
+}
+
+/**
+ * Smallest box around a set of points
+ */
+export function getPointsBounds(points: Point[]): Bounds {
+  if (points.length === 0) return { x: 0, y: 0, width: 0, height: 0 };
+  const xs = points.map(point => point.x);
+  const ys = points.map(point => point.y);
+  const x = Math.min(...xs);
+  const y = Math.min(...ys);
+  return { x, y, width: Math.max(...xs) - x, height: Math.max(...ys) - y };
+}
+
+/**
+ * Whether a point lies inside a closed polygon (even-odd rule)
+ */
+export function isPointInPolygon(point: Point, polygon: Point[]): boolean {
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const a = polygon[i];
+    const b = polygon[j];
+    if ((a.y > point.y) !== (b.y > point.y) && point.x < ((b.x - a.x) * (point.y - a.y)) / (b.y - a.y) + a.x) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+export function isPointInBounds(point: Point, bounds: Bounds): boolean {
+  return (
+    point.x >= bounds.x &&
+    point.x <= bounds.x + bounds.width &&
+    point.y >= bounds.y &&
+    point.y <= bounds.y + bounds.height
+  );
+}
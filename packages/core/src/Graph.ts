@@ -1,32 +1,182 @@
 import { Node, NodeData } from './Node';
 import { Edge, EdgeData } from './Edge';
-import { Port } from './Port';
+import { Port, PortSetting } from './Port';
 import { EventEmitter } from './EventEmitter';
 import { QuadTree, Bounds } from './QuadTree';
+import type { NodeRegistry } from './NodeRegistry';
+import { ConnectionCheck, DataTypeRegistry, defaultDataTypes } from './DataTypes';
+import {
+  SUBGRAPH_TYPE,
+  SUBGRAPH_INPUT_TYPE,
+  SUBGRAPH_OUTPUT_TYPE,
+  SUBGRAPH_PORT_PROPERTY,
+  getBoundaryNodes,
+  isSubgraphType
+} from './Subgraph';
+import { MigrationRegistry, defaultMigrations, getFormatVersion } from './Migrations';
+import { GraphDataError, GraphDataIssue, validateGraphData } from './GraphDataValidator';
+import { ExportResult, FormatRegistry, defaultFormats } from './formats';
+import { GraphChange, revertChanges } from './Transaction';
+import { MutationHook, createMutationHook } from './MutationHook';
+import { LayoutModel, defaultLayout } from './Layout';
 
 export interface GraphEvents {
+  // Fired before the change; listeners may rewrite the data or cancel
+  'node:adding': [hook: MutationHook<NodeData>];
+  'node:removing': [hook: MutationHook<Node>];
+  'edge:adding': [hook: MutationHook<EdgeData>];
   'node:added': [node: Node];
   'node:removed': [nodeId: string];
   'edge:added': [edge: Edge];
   'edge:removed': [edgeId: string];
+  'edge:rejected': [sourcePort: Port, targetPort: Port, reason: string];
+  'node:rejected': [action: 'add' | 'remove' | 'move', nodeId: string, reason: string];
   'port:connected': [edge: Edge];
   'port:disconnected': [edgeId: string];
-  'node:moving': [node: Node, x: number, y: number];
+  'node:moving': [node: Node, x: number, y: number, move: MutationHook<{ x: number; y: number }>];
   'node:moved': [node: Node, x: number, y: number];
+  'node:resized': [node: Node, width: number, height: number];
+  'node:renamed': [node: Node, name: string, previousName: string];
+  'node:property:changed': [node: Node, key: string, value: any, previousValue: any, existed: boolean, exists: boolean];
+  'node:subgraph:changed': [node: Node];
   'port:added': [port: Port];
   'port:removed': [portId: string];
+  'port:changed': [port: Port, setting: PortSetting, value: any, previousValue: any];
   'connection:start': [];
   'connection:update': [x: number, y: number];
   'connection:end': [];
+  'batch': [changes: GraphChange[]];
 }
 
+// Notifications held back while a transaction is open; its batch event replaces them
+const DEFERRED_EVENTS = new Set<keyof GraphEvents>([
+  'node:added',
+  'node:removed',
+  'edge:added',
+  'edge:removed',
+  'port:connected',
+  'port:disconnected',
+  'node:moved',
+  'node:renamed',
+  'node:property:changed',
+  'node:subgraph:changed',
+  'port:added',
+  'port:removed',
+  'port:changed'
+]);
+
 export interface GraphData {
+  formatVersion?: number;  // Missing in documents written before versioning (version 1)
   id: string;
   name: string;
   nodes: NodeData[];
   edges: EdgeData[];
 }
 
+export interface GraphOptions {
+  /**
+   * When set, every node must have a registered type and its ports are
+   * rebuilt from the type definition
+   */
+  registry?: NodeRegistry;
+  /**
+   * Data type compatibility table consulted for every connection
+   */
+  dataTypes?: DataTypeRegistry;
+  /**
+   * When false, edges that would close a feedback loop are refused (default true)
+   */
+  allowCycles?: boolean;
+  /**
+   * What happens when an edge targets a port that reached its maxConnections:
+   * 'reject' refuses the new edge (default), 'replace' removes the oldest edge of the port
+   */
+  connectionPolicy?: ConnectionPolicy;
+  /**
+   * Migrations run on loaded documents (defaults to the built-in migrations)
+   */
+  migrations?: MigrationRegistry;
+  /**
+   * Refuse documents written by a newer format version
+   */
+  strictVersion?: boolean;
+  /**
+   * How invalid documents are loaded: 'fail-fast' throws a GraphDataError listing
+   * every problem (default), 'best-effort' skips the bad items and records them
+   * as load warnings
+   */
+  loadMode?: LoadMode;
+  /**
+   * Format adapters used by exportAs and importFrom (defaults to DOT, Mermaid and GraphML)
+   */
+  formats?: FormatRegistry;
+  /**
+   * Sizes nodes and places their ports (defaults to the built-in layout)
+   */
+  layout?: LayoutModel;
+}
+
+export type ConnectionPolicy = 'reject' | 'replace';
+
+export type LoadMode = 'fail-fast' | 'best-effort';
+
+export interface GroupNodesOptions {
+  id?: string;
+  name?: string;
+}
+
+export interface AddNodeOfTypeOptions {
+  id?: string;
+  name?: string;
+  x?: number;
+  y?: number;
+}
+
+/**
+ * Restricts which edges and nodes a traversal follows
+ */
+export interface TraversalFilter {
+  /**
+   * Only step onto nodes of these types
+   */
+  nodeTypes?: string[];
+  /**
+   * Only follow edges with a port of this id or name at either end
+   */
+  port?: string;
+  /**
+   * Custom test for every edge about to be followed
+   */
+  edge?: (edge: Edge) => boolean;
+}
+
+/**
+ * Limits for nearest-item queries on the spatial indices
+ */
+export interface NearestQueryOptions<T> {
+  /**
+   * Ignore items farther away than this
+   */
+  maxDistance?: number;
+  /**
+   * Skip items the predicate refuses
+   */
+  filter?: (item: T) => boolean;
+}
+
+type TraversalDirection = 'upstream' | 'downstream';
+
+function reorder<T>(map: Map<string, T>, keys: string[]): void {
+  const entries = new Map(map);
+  map.clear();
+  keys.forEach(key => {
+    if (entries.has(key)) map.set(key, entries.get(key)!);
+  });
+  entries.forEach((value, key) => {
+    if (!map.has(key)) map.set(key, value);
+  });
+}
+
 export class Graph extends EventEmitter<GraphEvents> {
   protected id: string;
   protected name: string;
@@ -34,51 +184,147 @@ export class Graph extends EventEmitter<GraphEvents> {
   protected edges: Map<string, Edge>;
   protected nodeQuadTree: QuadTree;
   protected edgeQuadTree: QuadTree;
+  protected portQuadTree: QuadTree;
+  protected registry?: NodeRegistry;
+  protected dataTypes: DataTypeRegistry;
+  protected allowCycles: boolean;
+  protected connectionPolicy: ConnectionPolicy;
+  protected layout: LayoutModel;
+  private options: GraphOptions;
+  private subgraphs: Map<string, Graph> = new Map();
+  // Adjacency indices kept in step with nodes and edges
+  private portNodes: Map<string, string> = new Map();
+  private portEdges: Map<string, Set<string>> = new Map();
+  private nodeEdges: Map<string, Set<string>> = new Map();
+  private loadWarnings: GraphDataIssue[] = [];
+  private loadedFormatVersion = 0;
+  private transactionDepth = 0;
+  private changes: GraphChange[] = [];
+  private reverting = false;
 
-  constructor(data: GraphData) {
+  constructor(data: GraphData, options: GraphOptions = {}) {
     super();
+    this.options = options;
     this.id = data.id;
     this.name = data.name;
+    this.registry = options.registry;
+    this.dataTypes = options.dataTypes || defaultDataTypes;
+    this.allowCycles = options.allowCycles !== false;
+    this.connectionPolicy = options.connectionPolicy || 'reject';
+    this.layout = options.layout || defaultLayout;
     this.nodes = new Map();
     this.edges = new Map();
 
-    // Initialize quadtree with a large enough boundary
-    const bounds: Bounds = {
-      x: -10000,
-      y: -10000,
-      width: 20000,
-      height: 20000
-    };
-    this.nodeQuadTree = new QuadTree(bounds);
-    this.edgeQuadTree = new QuadTree(bounds);
+    // Spatial indices grow to cover wherever items are placed
+    this.nodeQuadTree = new QuadTree();
+    this.edgeQuadTree = new QuadTree();
+    this.portQuadTree = new QuadTree();
 
     this.initializeGraph(data);
   }
 
+  private getMigrations(): MigrationRegistry {
+    return this.options.migrations || defaultMigrations;
+  }
+
+  // A document from a newer version keeps its version when written back
+  private getOutputFormatVersion(): number {
+    return Math.max(this.loadedFormatVersion, this.getMigrations().getTargetVersion());
+  }
+
   /**
    * Initialize or reinitialize the graph with given data
    * @param data Graph data to initialize with
    */
   private initializeGraph(data: GraphData): void {
-    // Create nodes in batch
-    const nodes = (data.nodes || []).map(nodeData => new Node(nodeData));
-    this.addNodes(nodes);
-
-    // Create edges in batch
-    const portMap = this.createPortMap();
-    const edges = (data.edges || []).map(edgeData => {
-      const edge = new Edge(edgeData, portMap, this.nodes);
-      return {
-        sourcePort: edge.getSourcePort(),
-        targetPort: edge.getTargetPort()
-      };
+    // Upgrade documents written by older versions
+    const migrationIssues: GraphDataIssue[] = [];
+    const migrated = this.getMigrations().migrate(data, { strict: this.options.strictVersion, issues: migrationIssues });
+
+    // Check the document before anything is built
+    const bestEffort = this.options.loadMode === 'best-effort';
+    const validation = validateGraphData(migrated, { registry: this.registry });
+    if (!validation.valid && !bestEffort) {
+      throw new GraphDataError(validation.issues);
+    }
+    this.loadWarnings = [...migrationIssues, ...validation.issues];
+    // A malformed version is only tolerated in best-effort mode
+    const version = getFormatVersion(validation.data);
+    this.loadedFormatVersion = Number.isFinite(version) ? version : 0;
+    data = validation.data;
+    this.id = data.id;
+    this.name = data.name;
+
+    // Issue paths point into the loaded document; the validator's copy skips
+    // the items it dropped, so positions are looked up by id
+    const indexById = (items: Array<{ id: string }>) => {
+      const indices = new Map<string, number>();
+      items.forEach((item, index) => {
+        if (item && !indices.has(item.id)) indices.set(item.id, index);
+      });
+      return indices;
+    };
+    const nodeIndices = indexById(Array.isArray(migrated.nodes) ? migrated.nodes : []);
+    const edgeIndices = indexById(Array.isArray(migrated.edges) ? migrated.edges : []);
+
+    // Create nodes in batch; hooks may refuse some of them
+    const rejected: GraphDataIssue[] = [];
+    this.transaction(() => data.nodes.forEach(nodeData => {
+      if (!this.createNode(nodeData)) {
+        rejected.push({ path: `nodes[${nodeIndices.get(nodeData.id)}]`, message: `Node ${nodeData.id} was rejected` });
+      }
+    }));
+
+    // Edges must also pass the connection rules of this graph
+    data.edges.forEach(edgeData => {
+      const path = `edges[${edgeIndices.get(edgeData.id)}]`;
+      const sourcePort = this.getPort(edgeData.sourcePortId);
+      const targetPort = this.getPort(edgeData.targetPortId);
+      if (!sourcePort || !targetPort) {
+        rejected.push({ path, message: `Port ${!sourcePort ? edgeData.sourcePortId : edgeData.targetPortId} not found` });
+        return;
+      }
+      const check = this.checkConnection(sourcePort, targetPort);
+      if (!check.allowed) {
+        rejected.push({ path, message: check.reason || 'Connection not allowed' });
+      } else if (check.replaces && check.replaces.length > 0) {
+        // The replace policy would evict edges of the same document
+        rejected.push({ path, message: `Connection would replace edge ${check.replaces.join(', ')}` });
+      } else if (!this.addEdge(sourcePort, targetPort, edgeData.id)) {
+        rejected.push({ path, message: `Edge ${edgeData.id} was rejected` });
+      }
     });
-    this.addEdges(edges);
+    if (rejected.length > 0 && !bestEffort) {
+      this.clear();
+      throw new GraphDataError(rejected);
+    }
+    this.loadWarnings.push(...rejected);
   }
 
-  private createNode(nodeData: NodeData): Node {
-    const node = new Node(nodeData);
+  /**
+   * Problems found in the last loaded document in best-effort mode
+   */
+  public getLoadWarnings(): GraphDataIssue[] {
+    return [...this.loadWarnings];
+  }
+
+  private createNode(data: NodeData, runHooks = true): Node | undefined {
+    const hook = createMutationHook(data);
+    if (runHooks) {
+      this.emit('node:adding', hook);
+    }
+    if (hook.canceled) {
+      this.emit('node:rejected', 'add', data.id, hook.reason || 'Node was rejected');
+      return undefined;
+    }
+    const nodeData = hook.data;
+
+    // Composite and boundary nodes are built in and keep their own ports
+    const useRegistry = this.registry && !isSubgraphType(nodeData.type);
+    const node = new Node(useRegistry ? this.registry!.rebuildNodeData(nodeData) : nodeData);
+    this.layout.apply(node, this.getFixedSize(node));
     this.nodes.set(node.getId(), node);
+    [...node.getInputs(), ...node.getOutputs()].forEach(port => this.indexPort(port, node));
 
     // Add node to quadtree
     const bounds = node.getBounds();
@@ -87,14 +333,16 @@ export class Graph extends EventEmitter<GraphEvents> {
       bounds
     });
 
+    this.record({ type: 'node:added', node: node.toJSON() });
     this.emit('node:added', node);
     this.setupNodeEventListeners(node);
     return node;
   }
 
   private createEdge(edgeData: EdgeData, portMap: Map<string, Port>): Edge {
-    const edge = new Edge(edgeData, portMap, this.nodes);
+    const edge = new Edge(edgeData, portMap, this.nodes, this.dataTypes);
     this.edges.set(edge.getId(), edge);
+    this.indexEdge(edge, true);
 
     // Add edge to quadtree
     const bounds = edge.getBounds();
@@ -103,34 +351,63 @@ export class Graph extends EventEmitter<GraphEvents> {
       bounds
     });
 
+    this.record({ type: 'edge:added', edge: edge.toJSON() });
     this.emit('edge:added', edge);
     this.setupEdgeEventListeners(edge);
     return edge;
   }
 
   private setupNodeEventListeners(node: Node): void {
-    node.on('moving', (x, y) => {
-      this.emit('node:moving', node, x, y);
+    node.on('moving', (x, y, move) => {
+      this.emit('node:moving', node, x, y, move);
+      if (move.canceled) {
+        this.emit('node:rejected', 'move', node.getId(), move.reason || 'Move was rejected');
+      }
     });
 
-    node.on('moved', (x, y) => {
-      // Update node position in quadtree
-      this.nodeQuadTree.remove(node.getId());
-      const bounds = node.getBounds();
-      this.nodeQuadTree.insert({
-        id: node.getId(),
-        bounds
-      });
+    node.on('moved', (x, y, previousPosition) => {
+      this.record({ type: 'node:moved', nodeId: node.getId(), position: { x, y }, previousPosition });
+      this.updateNodeBounds(node);
       this.emit('node:moved', node, x, y);
     });
 
+    node.on('resized', (width, height) => {
+      this.updateNodeBounds(node);
+      this.emit('node:resized', node, width, height);
+    });
+
+    node.on('renamed', (name, previousName) => {
+      this.record({ type: 'node:renamed', nodeId: node.getId(), name, previousName });
+      this.emit('node:renamed', node, name, previousName);
+    });
+
+    node.on('property:changed', (key, value, previousValue, existed, exists) => {
+      this.record({ type: 'node:property:changed', nodeId: node.getId(), key, value, previousValue, existed, exists });
+      this.emit('node:property:changed', node, key, value, previousValue, existed, exists);
+    });
+
+    node.on('subgraph:changed', (previousSubgraph) => {
+      this.record({ type: 'node:subgraph:changed', nodeId: node.getId(), subgraph: node.getSubgraph(), previousSubgraph });
+      this.emit('node:subgraph:changed', node);
+    });
+
     node.on('port:added', (port) => {
+      this.relayout(node);
+      this.record({ type: 'port:added', port: port.toJSON() });
       this.emit('port:added', port);
     });
 
-    node.on('port:removed', (portId) => {
+    node.on('port:removed', (portId, port) => {
+      this.indexPort(port);
+      this.relayout(node);
+      this.record({ type: 'port:removed', port: port.toJSON() });
       this.emit('port:removed', portId);
     });
+
+    node.on('port:changed', (port, setting, value, previousValue) => {
+      this.record({ type: 'port:changed', nodeId: node.getId(), portId: port.getId(), setting, value, previousValue });
+      this.emit('port:changed', port, setting, value, previousValue);
+    });
   }
 
   private setupEdgeEventListeners(edge: Edge): void {
@@ -143,15 +420,6 @@ export class Graph extends EventEmitter<GraphEvents> {
     });
   }
 
-  private createPortMap(): Map<string, Port> {
-    const portMap = new Map<string, Port>();
-    this.nodes.forEach(node => {
-      node.getInputs().forEach(port => portMap.set(port.getId(), port));
-      node.getOutputs().forEach(port => portMap.set(port.getId(), port));
-    });
-    return portMap;
-  }
-
   public getId(): string {
     return this.id;
   }
@@ -160,6 +428,22 @@ export class Graph extends EventEmitter<GraphEvents> {
     return this.name;
   }
 
+  public setName(name: string): void {
+    this.name = name;
+  }
+
+  public getRegistry(): NodeRegistry | undefined {
+    return this.registry;
+  }
+
+  public getLayout(): LayoutModel {
+    return this.layout;
+  }
+
+  public getDataTypes(): DataTypeRegistry {
+    return this.dataTypes;
+  }
+
   public getNodes(): Node[] {
     return Array.from(this.nodes.values());
   }
@@ -177,51 +461,287 @@ export class Graph extends EventEmitter<GraphEvents> {
   }
 
   public getPort(id: string): Port | undefined {
-    for (const node of this.nodes.values()) {
-      const input = node.getInput(id);
-      if (input) return input;
-      const output = node.getOutput(id);
-      if (output) return output;
+    const node = this.getNodeOfPort(id);
+    return node && (node.getInput(id) || node.getOutput(id));
+  }
+
+  /**
+   * Node owning a port
+   */
+  public getNodeOfPort(portId: string): Node | undefined {
+    const nodeId = this.portNodes.get(portId);
+    return nodeId !== undefined ? this.nodes.get(nodeId) : undefined;
+  }
+
+  /**
+   * Edges starting or ending at a port
+   */
+  public getEdgesOfPort(portId: string): Edge[] {
+    return this.resolveEdges(this.portEdges.get(portId));
+  }
+
+  /**
+   * Edges starting or ending at any port of a node
+   */
+  public getEdgesOfNode(nodeId: string): Edge[] {
+    return this.resolveEdges(this.nodeEdges.get(nodeId));
+  }
+
+  // Track a port under its node, or drop it when no node is given
+  private indexPort(port: Port, node?: Node): void {
+    if (!node) {
+      this.portNodes.delete(port.getId());
+      this.portQuadTree.remove(port.getId());
+      return;
+    }
+    this.portNodes.set(port.getId(), node.getId());
+    const { x, y } = port.getPosition(node);
+    this.portQuadTree.insert({ id: port.getId(), bounds: { x, y, width: 0, height: 0 } });
+  }
+
+  // Size a node type asks for, which the layout keeps instead of measuring
+  private getFixedSize(node: Node): { width: number; height: number } | undefined {
+    const definition = this.registry?.get(node.getType());
+    if (definition && definition.width !== undefined && definition.height !== undefined) {
+      return { width: definition.width, height: definition.height };
     }
     return undefined;
   }
 
-  public addNode(node: Node): void {
-    this.createNode(node.toJSON());
+  // Lay a node out again after its ports changed
+  private relayout(node: Node): void {
+    this.layout.apply(node, this.getFixedSize(node));
+    this.updateNodeBounds(node);
+  }
+
+  // Re-index a node after it moved or resized, along with its ports and edges
+  private updateNodeBounds(node: Node): void {
+    this.nodeQuadTree.insert({ id: node.getId(), bounds: node.getBounds() });
+    [...node.getInputs(), ...node.getOutputs()].forEach(port => this.indexPort(port, node));
+    this.getEdgesOfNode(node.getId()).forEach(edge => {
+      edge.clearCache();
+      this.edgeQuadTree.insert({ id: edge.getId(), bounds: edge.getBounds() });
+    });
+  }
+
+  private resolveEdges(edgeIds: Set<string> | undefined): Edge[] {
+    return Array.from(edgeIds || [])
+      .map(edgeId => this.edges.get(edgeId))
+      .filter((edge): edge is Edge => edge !== undefined);
+  }
+
+  private indexEdge(edge: Edge, add: boolean): void {
+    const sourcePort = edge.getSourcePort();
+    const targetPort = edge.getTargetPort();
+    const entries: Array<[Map<string, Set<string>>, string]> = [
+      [this.portEdges, sourcePort.getId()],
+      [this.portEdges, targetPort.getId()],
+      [this.nodeEdges, sourcePort.getNodeId()],
+      [this.nodeEdges, targetPort.getNodeId()]
+    ];
+    entries.forEach(([index, key]) => {
+      const edgeIds = index.get(key) || new Set<string>();
+      if (add) {
+        edgeIds.add(edge.getId());
+        index.set(key, edgeIds);
+      } else {
+        edgeIds.delete(edge.getId());
+        if (edgeIds.size === 0) index.delete(key);
+      }
+    });
+  }
+
+  /**
+   * Add a copy of a node
+   * @returns The node as stored in the graph, or undefined when a hook refused it
+   */
+  public addNode(node: Node): Node | undefined {
+    return this.createNode(node.toJSON());
+  }
+
+  /**
+   * Add a node from recorded data without running the mutation hooks, e.g. to
+   * replay history. An existing node with the same id is kept.
+   */
+  public restoreNode(data: NodeData): Node | undefined {
+    if (this.nodes.has(data.id)) return undefined;
+    return this.createNode(data, false);
+  }
+
+  /**
+   * Create and add a node of a registered type
+   * @param type Registered node type
+   * @param options Optional id, name and position; a free id is generated when omitted
+   * @throws Error when the graph has no registry or a hook refused the node
+   */
+  public addNodeOfType(type: string, options: AddNodeOfTypeOptions = {}): Node {
+    if (!this.registry) {
+      throw new Error('Graph has no node registry');
+    }
+
+    const id = options.id || this.generateNodeId(type);
+    const node = this.createNode(this.registry.createNodeData(type, { ...options, id }));
+    if (!node) {
+      throw new Error(`Node ${id} was rejected`);
+    }
+    return node;
+  }
+
+  private generateNodeId(prefix: string): string {
+    let index = this.nodes.size + 1;
+    while (this.nodes.has(`${prefix}-${index}`)) {
+      index++;
+    }
+    return `${prefix}-${index}`;
   }
 
-  public removeNode(nodeId: string): void {
+  /**
+   * Remove a node together with its edges
+   * @returns False when the node does not exist or a hook refused the removal
+   */
+  public removeNode(nodeId: string): boolean {
     const node = this.nodes.get(nodeId);
-    if (node) {
-      // Remove node from quadtree
-      this.nodeQuadTree.remove(nodeId);
-
-      // Delete all edges related to this node
-      const edgesToRemove = Array.from(this.edges.values()).filter(edge => {
-        const sourcePort = edge.getSourcePort();
-        const targetPort = edge.getTargetPort();
-        return sourcePort.getNodeId() === nodeId || targetPort.getNodeId() === nodeId;
-      });
+    if (!node) return false;
 
-      // First remove all related edges
-      edgesToRemove.forEach(edge => {
-        this.removeEdge(edge.getId());
-      });
+    const hook = createMutationHook(node);
+    this.emit('node:removing', hook);
+    if (hook.canceled) {
+      this.emit('node:rejected', 'remove', nodeId, hook.reason || 'Removal was rejected');
+      return false;
+    }
+    this.deleteNode(node);
+    return true;
+  }
+
+  /**
+   * Remove a node and its edges without running the mutation hooks, e.g. to
+   * replay history
+   * @returns False when the node does not exist
+   */
+  public discardNode(nodeId: string): boolean {
+    const node = this.nodes.get(nodeId);
+    if (!node) return false;
+    this.deleteNode(node);
+    return true;
+  }
+
+  // Removal without hooks, also used to reset the graph
+  private deleteNode(node: Node): void {
+    const nodeId = node.getId();
+    const nodeData = node.toJSON();
+
+    // Remove node from quadtree
+    this.nodeQuadTree.remove(nodeId);
+
+    // First remove all related edges
+    this.getEdgesOfNode(nodeId).forEach(edge => {
+      this.removeEdge(edge.getId());
+    });
+
+    // Then remove the node
+    this.nodes.delete(nodeId);
+    [...node.getInputs(), ...node.getOutputs()].forEach(port => this.indexPort(port));
+    this.subgraphs.delete(nodeId);
+    this.record({ type: 'node:removed', node: nodeData });
+    this.emit('node:removed', nodeId);
+  }
+
+  /**
+   * Check whether an edge may be created between two ports
+   * @param sourcePort Output port
+   * @param targetPort Input port
+   */
+  public checkConnection(sourcePort: Port, targetPort: Port): ConnectionCheck {
+    const check = sourcePort.checkConnection(targetPort, this.dataTypes);
+    if (!check.allowed) {
+      return check;
+    }
+
+    const sourceEdges = this.getEdgesOfPort(sourcePort.getId());
+    const targetEdges = this.getEdgesOfPort(targetPort.getId());
+    if (sourceEdges.some(edge => edge.getTargetPort().getId() === targetPort.getId())) {
+      return { allowed: false, reason: 'Ports are already connected' };
+    }
 
-      // Then remove the node
-      this.nodes.delete(nodeId);
-      this.emit('node:removed', nodeId);
+    // Enforce per-port connection limits
+    const replaces: string[] = [];
+    for (const [port, edges] of [[sourcePort, sourceEdges], [targetPort, targetEdges]] as [Port, Edge[]][]) {
+      const overflow = edges.length - port.getMaxConnections() + 1;
+      if (overflow <= 0) continue;
+      if (this.connectionPolicy === 'reject') {
+        const limit = port.getMaxConnections();
+        return {
+          allowed: false,
+          reason: `Port ${port.getName()} accepts at most ${limit} connection${limit === 1 ? '' : 's'}`
+        };
+      }
+      replaces.push(...edges.slice(0, overflow).map(edge => edge.getId()));
+    }
+    if (replaces.length > 0) {
+      check.replaces = replaces;
     }
+
+    if (!this.allowCycles) {
+      const cycle = this.findCycleThrough(sourcePort.getNodeId(), targetPort.getNodeId());
+      if (cycle) {
+        const names = [...cycle, cycle[0]].map(id => this.nodes.get(id)?.getName() || id);
+        return { allowed: false, reason: `Connection would create a cycle: ${names.join(' -> ')}`, cycle };
+      }
+    }
+    return check;
+  }
+
+  public getConnectionPolicy(): ConnectionPolicy {
+    return this.connectionPolicy;
+  }
+
+  public getAllowCycles(): boolean {
+    return this.allowCycles;
   }
 
-  public addEdge(sourcePort: Port, targetPort: Port): Edge | undefined {
+  /**
+   * Connect two ports if the connection rules allow it
+   * @param sourcePort Output port
+   * @param targetPort Input port
+   * @param edgeId Id of the new edge, generated from the port ids when omitted
+   */
+  public addEdge(sourcePort: Port, targetPort: Port, edgeId?: string): Edge | undefined {
+    const hook = createMutationHook<EdgeData>({
+      id: edgeId || `edge-${sourcePort.getId()}-${targetPort.getId()}`,
+      sourcePortId: sourcePort.getId(),
+      targetPortId: targetPort.getId()
+    });
+    this.emit('edge:adding', hook);
+    if (hook.canceled) {
+      this.emit('edge:rejected', sourcePort, targetPort, hook.reason || 'Connection was rejected');
+      return undefined;
+    }
+
+    // Hooks may have pointed the edge at other ports
+    const edgeData = hook.data;
+    const source = edgeData.sourcePortId === sourcePort.getId() ? sourcePort : this.getPort(edgeData.sourcePortId);
+    const target = edgeData.targetPortId === targetPort.getId() ? targetPort : this.getPort(edgeData.targetPortId);
+    if (!source || !target) {
+      const missing = !source ? edgeData.sourcePortId : edgeData.targetPortId;
+      this.emit('edge:rejected', sourcePort, targetPort, `Port ${missing} not found`);
+      return undefined;
+    }
+    sourcePort = source;
+    targetPort = target;
+
+    const explicitId = edgeId !== undefined || edgeData.id !== `edge-${sourcePort.getId()}-${targetPort.getId()}`;
+    const check = explicitId && this.edges.has(edgeData.id)
+      ? { allowed: false, reason: `Edge id ${edgeData.id} already exists` }
+      : this.checkConnection(sourcePort, targetPort);
+    if (!check.allowed) {
+      this.emit('edge:rejected', sourcePort, targetPort, check.reason || 'Connection not allowed');
+      return undefined;
+    }
+
+    // Make room on full ports
+    (check.replaces || []).forEach(edgeId => this.removeEdge(edgeId));
+
     try {
-      const edgeId = `edge-${sourcePort.getId()}-${targetPort.getId()}`;
-      const edgeData: EdgeData = {
-        id: edgeId,
-        sourcePortId: sourcePort.getId(),
-        targetPortId: targetPort.getId()
-      };
       const portMap = new Map([[sourcePort.getId(), sourcePort], [targetPort.getId(), targetPort]]);
 
       return this.createEdge(edgeData, portMap);
@@ -231,6 +751,18 @@ export class Graph extends EventEmitter<GraphEvents> {
     }
   }
 
+  /**
+   * Add an edge from recorded data without running the mutation hooks or the
+   * connection rules, e.g. to replay history
+   * @returns Undefined when the id is taken or a port is missing
+   */
+  public restoreEdge(data: EdgeData): Edge | undefined {
+    const sourcePort = this.getPort(data.sourcePortId);
+    const targetPort = this.getPort(data.targetPortId);
+    if (this.edges.has(data.id) || !sourcePort || !targetPort) return undefined;
+    return this.createEdge(data, new Map([[sourcePort.getId(), sourcePort], [targetPort.getId(), targetPort]]));
+  }
+
   public removeEdge(edgeId: string): void {
     const edge = this.edges.get(edgeId);
     if (edge) {
@@ -239,12 +771,15 @@ export class Graph extends EventEmitter<GraphEvents> {
 
       edge.disconnect();
       this.edges.delete(edgeId);
+      this.indexEdge(edge, false);
+      this.record({ type: 'edge:removed', edge: edge.toJSON() });
       this.emit('edge:removed', edgeId);
     }
   }
 
   public toJSON(): GraphData {
     return {
+      formatVersion: this.getOutputFormatVersion(),
       id: this.getId(),
       name: this.getName(),
       nodes: this.getNodes().map(node => node.toJSON()),
@@ -252,18 +787,84 @@ export class Graph extends EventEmitter<GraphEvents> {
     };
   }
 
+  /**
+   * Run several changes as one unit. Notifications are held back until the
+   * outermost transaction ends and then delivered as a single batch event.
+   * If the callback throws, every change it made is reverted and the error
+   * is rethrown.
+   * @param fn Callback making the changes
+   * @returns The value returned by the callback
+   */
+  public transaction<T>(fn: () => T): T {
+    const start = this.changes.length;
+    const { id, name } = this;
+    const nodeOrder = Array.from(this.nodes.keys());
+    const edgeOrder = Array.from(this.edges.keys());
+    this.transactionDepth++;
+    try {
+      return fn();
+    } catch (error) {
+      this.reverting = true;
+      try {
+        revertChanges(this, this.changes.splice(start));
+      } finally {
+        this.reverting = false;
+      }
+      // Restored items go back to their old place in the iteration order
+      reorder(this.nodes, nodeOrder);
+      reorder(this.edges, edgeOrder);
+      this.id = id;
+      this.name = name;
+      throw error;
+    } finally {
+      this.transactionDepth--;
+      if (this.transactionDepth === 0) {
+        const changes = this.changes;
+        this.changes = [];
+        if (changes.length > 0) {
+          this.emit('batch', changes);
+        }
+      }
+    }
+  }
+
+  public emit<K extends keyof GraphEvents>(event: K, ...args: GraphEvents[K]): void {
+    if (this.transactionDepth > 0 && DEFERRED_EVENTS.has(event)) return;
+    super.emit(event, ...args);
+  }
+
+  private record(change: GraphChange): void {
+    if (this.transactionDepth === 0 || this.reverting) return;
+
+    // Consecutive moves of a node collapse into one change
+    if (change.type === 'node:moved') {
+      for (let i = this.changes.length - 1; i >= 0; i--) {
+        const previous = this.changes[i];
+        const previousNodeId = 'nodeId' in previous ? previous.nodeId : 'node' in previous ? previous.node.id : undefined;
+        if (previousNodeId !== change.nodeId) continue;
+        if (previous.type === 'node:moved') {
+          previous.position = change.position;
+          return;
+        }
+        break;
+      }
+    }
+    this.changes.push(change);
+  }
+
   public clear(): void {
     // Clear quadtrees
     this.nodeQuadTree.clear();
     this.edgeQuadTree.clear();
+    this.portQuadTree.clear();
 
-    // Remove all edges in batch
+    // Remove all edges, then all nodes, in one batch; a reset is not subject to node removal hooks
     const edgeIds = Array.from(this.edges.keys());
-    this.removeEdges(edgeIds);
-
-    // Remove all nodes in batch
-    const nodeIds = Array.from(this.nodes.keys());
-    this.removeNodes(nodeIds);
+    const nodes = this.getNodes();
+    this.transaction(() => {
+      edgeIds.forEach(edgeId => this.removeEdge(edgeId));
+      nodes.forEach(node => this.deleteNode(node));
+    });
   }
 
   /**
@@ -271,7 +872,7 @@ export class Graph extends EventEmitter<GraphEvents> {
    * @param nodes Array of nodes to add
    */
   public addNodes(nodes: Node[]): void {
-    nodes.forEach(node => this.addNode(node));
+    this.transaction(() => nodes.forEach(node => this.addNode(node)));
   }
 
   /**
@@ -279,17 +880,17 @@ export class Graph extends EventEmitter<GraphEvents> {
    * @param nodeIds Array of node IDs to remove
    */
   public removeNodes(nodeIds: string[]): void {
-    nodeIds.forEach(nodeId => this.removeNode(nodeId));
+    this.transaction(() => nodeIds.forEach(nodeId => this.removeNode(nodeId)));
   }
 
   /**
    * Batch add edges
-   * @param edges Array of edges to add, each containing source and target ports
+   * @param edges Array of edges to add, each containing source and target ports and an optional id
    */
-  public addEdges(edges: Array<{ sourcePort: Port; targetPort: Port }>): Edge[] {
-    return edges
-      .map(({ sourcePort, targetPort }) => this.addEdge(sourcePort, targetPort))
-      .filter((edge): edge is Edge => edge !== undefined);
+  public addEdges(edges: Array<{ sourcePort: Port; targetPort: Port; id?: string }>): Edge[] {
+    return this.transaction(() => edges
+      .map(({ sourcePort, targetPort, id }) => this.addEdge(sourcePort, targetPort, id))
+      .filter((edge): edge is Edge => edge !== undefined));
   }
 
   /**
@@ -297,23 +898,602 @@ export class Graph extends EventEmitter<GraphEvents> {
    * @param edgeIds Array of edge IDs to remove
    */
   public removeEdges(edgeIds: string[]): void {
-    edgeIds.forEach(edgeId => this.removeEdge(edgeId));
+    this.transaction(() => edgeIds.forEach(edgeId => this.removeEdge(edgeId)));
+  }
+
+  /**
+   * Collapse nodes into one composite node whose body is a nested graph.
+   * Edges crossing the selection are rerouted through boundary nodes and composite ports.
+   * @param nodeIds Nodes to collapse
+   * @param options Optional id and name of the composite node
+   * @returns The composite node, or undefined when no node was found
+   * @throws Error when a hook refuses one of the changes; the graph is left unchanged
+   */
+  public groupNodes(nodeIds: string[], options: GroupNodesOptions = {}): Node | undefined {
+    const nodes = nodeIds
+      .map(nodeId => this.nodes.get(nodeId))
+      .filter((node): node is Node => node !== undefined);
+    if (nodes.length === 0) return undefined;
+
+    const compositeId = options.id || this.generateNodeId(SUBGRAPH_TYPE);
+    const selected = new Set(nodes.map(node => node.getId()));
+    const innerEdges: EdgeData[] = [];
+    const incoming = new Map<string, Edge[]>();  // Outer source port -> edges into the selection
+    const outgoing = new Map<string, Edge[]>();  // Inner source port -> edges leaving the selection
+    this.edges.forEach(edge => {
+      const sourcePort = edge.getSourcePort();
+      const sourceInside = selected.has(sourcePort.getNodeId());
+      const targetInside = selected.has(edge.getTargetPort().getNodeId());
+      if (sourceInside && targetInside) {
+        innerEdges.push(edge.toJSON());
+      } else if (targetInside || sourceInside) {
+        const crossing = targetInside ? incoming : outgoing;
+        if (!crossing.has(sourcePort.getId())) {
+          crossing.set(sourcePort.getId(), []);
+        }
+        crossing.get(sourcePort.getId())!.push(edge);
+      }
+    });
+
+    const positions = nodes.map(node => node.getPosition());
+    const minX = Math.min(...positions.map(p => p.x));
+    const maxX = Math.max(...positions.map(p => p.x));
+    const minY = Math.min(...positions.map(p => p.y));
+    const innerNodes: NodeData[] = nodes.map(node => node.toJSON());
+    const compositeData: NodeData = {
+      id: compositeId,
+      name: options.name || 'Subgraph',
+      type: SUBGRAPH_TYPE,
+      x: positions.reduce((sum, p) => sum + p.x, 0) / positions.length,
+      y: positions.reduce((sum, p) => sum + p.y, 0) / positions.length,
+      inputs: [],
+      outputs: []
+    };
+    const outerEdges: Array<{ sourcePortId: string; targetPortId: string }> = [];
+
+    Array.from(incoming.entries()).forEach(([outerPortId, edges], index) => {
+      const outerPort = edges[0].getSourcePort();
+      const portId = `${compositeId}-in-${index + 1}`;
+      const boundaryId = `${compositeId}-input-${index + 1}`;
+      const name = edges[0].getTargetPort().getName();
+      compositeData.inputs!.push({ id: portId, name, type: 'input', dataType: outerPort.getDataType() });
+      innerNodes.push({
+        id: boundaryId,
+        name,
+        type: SUBGRAPH_INPUT_TYPE,
+        x: minX - 200,
+        y: minY + index * 100,
+        outputs: [{ id: `${boundaryId}-out`, name, type: 'output', dataType: outerPort.getDataType() }],
+        properties: { [SUBGRAPH_PORT_PROPERTY]: portId }
+      });
+      edges.forEach(edge => innerEdges.push({
+        id: `edge-${boundaryId}-out-${edge.getTargetPort().getId()}`,
+        sourcePortId: `${boundaryId}-out`,
+        targetPortId: edge.getTargetPort().getId()
+      }));
+      outerEdges.push({ sourcePortId: outerPortId, targetPortId: portId });
+    });
+
+    Array.from(outgoing.entries()).forEach(([innerPortId, edges], index) => {
+      const innerPort = edges[0].getSourcePort();
+      const portId = `${compositeId}-out-${index + 1}`;
+      const boundaryId = `${compositeId}-output-${index + 1}`;
+      compositeData.outputs!.push({ id: portId, name: innerPort.getName(), type: 'output', dataType: innerPort.getDataType() });
+      innerNodes.push({
+        id: boundaryId,
+        name: innerPort.getName(),
+        type: SUBGRAPH_OUTPUT_TYPE,
+        x: maxX + 200,
+        y: minY + index * 100,
+        inputs: [{ id: `${boundaryId}-in`, name: innerPort.getName(), type: 'input', dataType: innerPort.getDataType() }],
+        properties: { [SUBGRAPH_PORT_PROPERTY]: portId }
+      });
+      innerEdges.push({
+        id: `edge-${innerPortId}-${boundaryId}-in`,
+        sourcePortId: innerPortId,
+        targetPortId: `${boundaryId}-in`
+      });
+      edges.forEach(edge => outerEdges.push({ sourcePortId: portId, targetPortId: edge.getTargetPort().getId() }));
+    });
+
+    compositeData.subgraph = {
+      formatVersion: this.getOutputFormatVersion(),
+      id: `${compositeId}-graph`,
+      name: compositeData.name,
+      nodes: innerNodes,
+      edges: innerEdges
+    };
+
+    return this.transaction(() => {
+      selected.forEach(nodeId => {
+        if (!this.removeNode(nodeId)) {
+          throw new Error(`Cannot group nodes: removal of node ${nodeId} was rejected`);
+        }
+      });
+      const composite = this.createNode(compositeData);
+      if (!composite) {
+        throw new Error(`Cannot group nodes: node ${compositeId} was rejected`);
+      }
+      this.connectPorts(outerEdges);
+      return composite;
+    });
+  }
+
+  /**
+   * Expand a composite node back into its inner nodes and reconnect its outer edges
+   * @param nodeId Composite node id
+   * @returns The restored inner nodes; nodes refused by a hook are left out
+   * @throws Error when an inner node id is already used outside the composite
+   */
+  public ungroupNode(nodeId: string): Node[] {
+    const composite = this.nodes.get(nodeId);
+    const subgraph = composite?.getSubgraph();
+    if (!composite || !subgraph) return [];
+
+    const inputBoundaries = getBoundaryNodes(subgraph, SUBGRAPH_INPUT_TYPE);
+    const outputBoundaries = getBoundaryNodes(subgraph, SUBGRAPH_OUTPUT_TYPE);
+    const boundaryPortIds = new Map<string, string>();  // Boundary node port -> composite port
+    inputBoundaries.forEach((node, portId) => (node.outputs || []).forEach(port => boundaryPortIds.set(port.id, portId)));
+    outputBoundaries.forEach((node, portId) => (node.inputs || []).forEach(port => boundaryPortIds.set(port.id, portId)));
+
+    // Ports connected to each composite port, outside and inside
+    const outerSources = new Map<string, string[]>();
+    const outerTargets = new Map<string, string[]>();
+    this.edges.forEach(edge => {
+      const sourcePort = edge.getSourcePort();
+      const targetPort = edge.getTargetPort();
+      if (targetPort.getNodeId() === nodeId) {
+        outerSources.set(targetPort.getId(), [...(outerSources.get(targetPort.getId()) || []), sourcePort.getId()]);
+      } else if (sourcePort.getNodeId() === nodeId) {
+        outerTargets.set(sourcePort.getId(), [...(outerTargets.get(sourcePort.getId()) || []), targetPort.getId()]);
+      }
+    });
+
+    const connections: Array<{ sourcePortId: string; targetPortId: string }> = [];
+    subgraph.edges.forEach(edge => {
+      const fromBoundary = boundaryPortIds.get(edge.sourcePortId);
+      const toBoundary = boundaryPortIds.get(edge.targetPortId);
+      if (fromBoundary) {
+        (outerSources.get(fromBoundary) || []).forEach(sourcePortId => {
+          connections.push({ sourcePortId, targetPortId: edge.targetPortId });
+        });
+      } else if (toBoundary) {
+        (outerTargets.get(toBoundary) || []).forEach(targetPortId => {
+          connections.push({ sourcePortId: edge.sourcePortId, targetPortId });
+        });
+      } else {
+        connections.push({ sourcePortId: edge.sourcePortId, targetPortId: edge.targetPortId });
+      }
+    });
+
+    // createNode would silently replace an outer node that shares an id
+    const innerNodes = subgraph.nodes.filter(node => node.type !== SUBGRAPH_INPUT_TYPE && node.type !== SUBGRAPH_OUTPUT_TYPE);
+    const taken = innerNodes.find(node => node.id !== nodeId && this.nodes.has(node.id));
+    if (taken) {
+      throw new Error(`Cannot ungroup node ${nodeId}: node ${taken.id} already exists`);
+    }
+
+    return this.transaction(() => {
+      if (!this.removeNode(nodeId)) return [];
+      const restored = innerNodes
+        .map(node => this.createNode(node))
+        .filter((node): node is Node => node !== undefined);
+      this.connectPorts(connections);
+      return restored;
+    });
+  }
+
+  /**
+   * Get a live graph for the body of a composite node.
+   * Changes made to the returned graph are written back to the composite node.
+   * When the body is replaced some other way, the returned graph is let go and
+   * the next call builds a new one.
+   * @param nodeId Composite node id
+   */
+  public enterSubgraph(nodeId: string): Graph | undefined {
+    const composite = this.nodes.get(nodeId);
+    const subgraph = composite?.getSubgraph();
+    if (!composite || !subgraph) return undefined;
+
+    const cached = this.subgraphs.get(nodeId);
+    if (cached) return cached;
+
+    const inner = new Graph(subgraph, this.options);
+    let syncing = false;
+    let detached = false;
+    const sync = () => {
+      if (detached) return;
+      syncing = true;
+      try {
+        composite.setSubgraph(inner.toJSON());
+      } finally {
+        syncing = false;
+      }
+    };
+    const invalidate = () => {
+      if (syncing) return;
+      detached = true;
+      composite.off('subgraph:changed', invalidate);
+      if (this.subgraphs.get(nodeId) === inner) {
+        this.subgraphs.delete(nodeId);
+      }
+    };
+    composite.on('subgraph:changed', invalidate);
+    inner.on('node:added', sync);
+    inner.on('node:removed', sync);
+    inner.on('node:moved', sync);
+    inner.on('node:renamed', sync);
+    inner.on('node:property:changed', sync);
+    inner.on('node:subgraph:changed', sync);
+    inner.on('edge:added', sync);
+    inner.on('edge:removed', sync);
+    inner.on('port:added', sync);
+    inner.on('port:removed', sync);
+    inner.on('port:changed', sync);
+    inner.on('batch', sync);
+    this.subgraphs.set(nodeId, inner);
+    return inner;
+  }
+
+  private connectPorts(connections: Array<{ sourcePortId: string; targetPortId: string }>): void {
+    connections.forEach(({ sourcePortId, targetPortId }) => {
+      const sourcePort = this.getPort(sourcePortId);
+      const targetPort = this.getPort(targetPortId);
+      if (sourcePort && targetPort) {
+        this.addEdge(sourcePort, targetPort);
+      }
+    });
   }
 
   public fromJSON(data: GraphData): void {
-    // Clear existing data
-    this.clear();
+    this.transaction(() => {
+      // Clear existing data
+      this.clear();
 
-    // Update basic information
-    this.id = data.id;
-    this.name = data.name;
+      // Update basic information
+      this.id = data.id;
+      this.name = data.name;
 
-    // Initialize graph with new data
-    this.initializeGraph(data);
+      // Initialize graph with new data
+      this.initializeGraph(data);
+    });
+  }
+
+  public static fromJSON(data: GraphData, options: GraphOptions = {}): Graph {
+    return new Graph(data, options);
+  }
+
+  /**
+   * Write the graph with a registered format adapter
+   * @param format Format name, e.g. 'dot' or 'mermaid'
+   */
+  public exportAs(format: string): ExportResult {
+    return (this.options.formats || defaultFormats).export(format, this.toJSON());
+  }
+
+  /**
+   * Build a graph from text in a registered format.
+   * Issues reported by the adapter are kept as load warnings.
+   * @param format Format name, e.g. 'dot'
+   * @param text Document text
+   * @param options Graph options
+   */
+  public static importFrom(format: string, text: string, options: GraphOptions = {}): Graph {
+    const { data, issues } = (options.formats || defaultFormats).import(format, text);
+    const graph = new Graph(data, options);
+    graph.loadWarnings.unshift(...issues);
+    return graph;
   }
 
-  public static fromJSON(data: GraphData): Graph {
-    return new Graph(data);
+  /**
+   * Order nodes so that every node comes after the nodes feeding it.
+   * Independent nodes keep their insertion order.
+   * @throws Error naming the nodes of a cycle when the graph is not acyclic
+   */
+  public topologicalSort(): Node[] {
+    const successors = this.getSuccessorMap();
+    const inDegree = new Map<string, number>();
+    this.nodes.forEach((_, nodeId) => inDegree.set(nodeId, 0));
+    successors.forEach(targets => {
+      targets.forEach(targetId => inDegree.set(targetId, inDegree.get(targetId)! + 1));
+    });
+
+    const queue = this.getNodes().filter(node => inDegree.get(node.getId()) === 0);
+    const order: Node[] = [];
+    while (queue.length > 0) {
+      const node = queue.shift()!;
+      order.push(node);
+      successors.get(node.getId())!.forEach(targetId => {
+        const degree = inDegree.get(targetId)! - 1;
+        inDegree.set(targetId, degree);
+        if (degree === 0) {
+          queue.push(this.nodes.get(targetId)!);
+        }
+      });
+    }
+
+    if (order.length < this.nodes.size) {
+      const cycle = this.findCycles()[0];
+      throw new Error(`Graph contains a cycle: ${cycle.join(' -> ')}`);
+    }
+    return order;
+  }
+
+  /**
+   * Find every group of nodes that feed each other (strongly connected components
+   * with more than one node, or a node connected to itself)
+   * @returns Node ids of each cycle
+   */
+  public findCycles(): string[][] {
+    const successors = this.getSuccessorMap();
+    const indices = new Map<string, number>();
+    const lowLinks = new Map<string, number>();
+    const onStack = new Set<string>();
+    const stack: string[] = [];
+    const cycles: string[][] = [];
+    let index = 0;
+
+    // Tarjan's algorithm with an explicit call stack, so long chains cannot
+    // overflow the JavaScript stack
+    const visit = (rootId: string): void => {
+      const calls: Array<{ nodeId: string; targets: Iterator<string> }> = [];
+      const enter = (nodeId: string) => {
+        indices.set(nodeId, index);
+        lowLinks.set(nodeId, index);
+        index++;
+        stack.push(nodeId);
+        onStack.add(nodeId);
+        calls.push({ nodeId, targets: successors.get(nodeId)!.values() });
+      };
+      enter(rootId);
+
+      while (calls.length > 0) {
+        const { nodeId, targets } = calls[calls.length - 1];
+        const next = targets.next();
+        if (!next.done) {
+          const targetId = next.value;
+          if (!indices.has(targetId)) {
+            enter(targetId);
+          } else if (onStack.has(targetId)) {
+            lowLinks.set(nodeId, Math.min(lowLinks.get(nodeId)!, indices.get(targetId)!));
+          }
+          continue;
+        }
+
+        calls.pop();
+        if (calls.length > 0) {
+          const parentId = calls[calls.length - 1].nodeId;
+          lowLinks.set(parentId, Math.min(lowLinks.get(parentId)!, lowLinks.get(nodeId)!));
+        }
+
+        if (lowLinks.get(nodeId) === indices.get(nodeId)) {
+          const component: string[] = [];
+          let memberId: string;
+          do {
+            memberId = stack.pop()!;
+            onStack.delete(memberId);
+            component.push(memberId);
+          } while (memberId !== nodeId);
+
+          if (component.length > 1 || successors.get(nodeId)!.has(nodeId)) {
+            cycles.push(component.reverse());
+          }
+        }
+      }
+    };
+
+    this.nodes.forEach((_, nodeId) => {
+      if (!indices.has(nodeId)) {
+        visit(nodeId);
+      }
+    });
+    return cycles;
+  }
+
+  public hasCycles(): boolean {
+    return this.findCycles().length > 0;
+  }
+
+  /**
+   * Nodes with an edge into the given node
+   */
+  public getPredecessors(nodeId: string, filter: TraversalFilter = {}): Node[] {
+    return this.getNeighbors(nodeId, 'upstream', filter);
+  }
+
+  /**
+   * Nodes the given node has an edge into
+   */
+  public getSuccessors(nodeId: string, filter: TraversalFilter = {}): Node[] {
+    return this.getNeighbors(nodeId, 'downstream', filter);
+  }
+
+  /**
+   * Every node that feeds the given node directly or indirectly, nearest first.
+   * The node itself is left out even when it sits on a cycle.
+   */
+  public getUpstream(nodeId: string, filter: TraversalFilter = {}): Node[] {
+    return this.collectReachable(nodeId, 'upstream', filter);
+  }
+
+  /**
+   * Every node fed by the given node directly or indirectly, nearest first.
+   * The node itself is left out even when it sits on a cycle.
+   */
+  public getDownstream(nodeId: string, filter: TraversalFilter = {}): Node[] {
+    return this.collectReachable(nodeId, 'downstream', filter);
+  }
+
+  /**
+   * Whether a path of at least one edge leads from one node to the other; a
+   * node reaches itself only through a cycle
+   */
+  public isReachable(fromId: string, toId: string, filter: TraversalFilter = {}): boolean {
+    if (!this.nodes.has(fromId) || !this.nodes.has(toId)) return false;
+
+    const queue = [fromId];
+    const visited = new Set<string>();
+    for (let i = 0; i < queue.length; i++) {
+      for (const next of this.getNeighbors(queue[i], 'downstream', filter)) {
+        const nextId = next.getId();
+        if (nextId === toId) return true;
+        if (visited.has(nextId)) continue;
+        visited.add(nextId);
+        queue.push(nextId);
+      }
+    }
+    return false;
+  }
+
+  /**
+   * Path with the fewest edges following edge direction. A node's path to
+   * itself is the node alone, whatever the filter.
+   * @returns Node ids from start to end, or undefined when there is no path
+   */
+  public findShortestPath(fromId: string, toId: string, filter: TraversalFilter = {}): string[] | undefined {
+    if (!this.nodes.has(fromId) || !this.nodes.has(toId)) return undefined;
+    if (fromId === toId) return [fromId];
+
+    const previous = new Map<string, string>();
+    const queue = [fromId];
+    const visited = new Set(queue);
+    while (queue.length > 0) {
+      const nodeId = queue.shift()!;
+      for (const next of this.getNeighbors(nodeId, 'downstream', filter)) {
+        const nextId = next.getId();
+        if (visited.has(nextId)) continue;
+        visited.add(nextId);
+        previous.set(nextId, nodeId);
+        if (nextId === toId) {
+          const path = [toId];
+          while (path[0] !== fromId) {
+            path.unshift(previous.get(path[0])!);
+          }
+          return path;
+        }
+        queue.push(nextId);
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Every path without repeated nodes following edge direction. The number of
+   * paths can grow exponentially with the size of the graph. A node's only
+   * path to itself is the node alone, whatever the filter.
+   * @returns Node ids of each path from start to end
+   */
+  public findAllPaths(fromId: string, toId: string, filter: TraversalFilter = {}): string[][] {
+    if (!this.nodes.has(fromId) || !this.nodes.has(toId)) return [];
+    if (fromId === toId) return [[fromId]];
+
+    const paths: string[][] = [];
+    const path = [fromId];
+    const onPath = new Set(path);
+    // Depth-first search with an explicit stack, so long chains cannot
+    // overflow the JavaScript stack
+    const stack = [{ neighbors: this.getNeighbors(fromId, 'downstream', filter), index: 0 }];
+    while (stack.length > 0) {
+      const frame = stack[stack.length - 1];
+      if (frame.index === frame.neighbors.length) {
+        stack.pop();
+        onPath.delete(path.pop()!);
+        continue;
+      }
+      const nextId = frame.neighbors[frame.index++].getId();
+      if (nextId === toId) {
+        paths.push([...path, nextId]);
+      } else if (!onPath.has(nextId)) {
+        path.push(nextId);
+        onPath.add(nextId);
+        stack.push({ neighbors: this.getNeighbors(nextId, 'downstream', filter), index: 0 });
+      }
+    }
+    return paths;
+  }
+
+  private getNeighbors(nodeId: string, direction: TraversalDirection, filter: TraversalFilter): Node[] {
+    const neighbors = new Map<string, Node>();
+    this.getEdgesOfNode(nodeId).forEach(edge => {
+      const sourcePort = edge.getSourcePort();
+      const targetPort = edge.getTargetPort();
+      const [fromPort, toPort] = direction === 'downstream' ? [sourcePort, targetPort] : [targetPort, sourcePort];
+      if (fromPort.getNodeId() !== nodeId) return;
+      const portMatches = filter.port === undefined ||
+        [sourcePort, targetPort].some(port => port.getId() === filter.port || port.getName() === filter.port);
+      if (!portMatches || (filter.edge && !filter.edge(edge))) return;
+
+      const node = this.nodes.get(toPort.getNodeId());
+      if (!node || (filter.nodeTypes && !filter.nodeTypes.includes(node.getType()))) return;
+      neighbors.set(node.getId(), node);
+    });
+    return Array.from(neighbors.values());
+  }
+
+  // Breadth-first, so nearer nodes come first
+  private collectReachable(nodeId: string, direction: TraversalDirection, filter: TraversalFilter): Node[] {
+    const result: Node[] = [];
+    const queue = [nodeId];
+    const visited = new Set(queue);
+    while (queue.length > 0) {
+      this.getNeighbors(queue.shift()!, direction, filter).forEach(node => {
+        if (visited.has(node.getId())) return;
+        visited.add(node.getId());
+        result.push(node);
+        queue.push(node.getId());
+      });
+    }
+    return result;
+  }
+
+  /**
+   * Find the loop an edge from sourceNodeId to targetNodeId would close
+   * @returns Node ids along the loop starting at the source node, or undefined
+   */
+  private findCycleThrough(sourceNodeId: string, targetNodeId: string): string[] | undefined {
+    if (sourceNodeId === targetNodeId) {
+      return [sourceNodeId];
+    }
+
+    // Search a path target -> ... -> source through existing edges
+    const successors = this.getSuccessorMap();
+    const previous = new Map<string, string>();
+    const queue = [targetNodeId];
+    const visited = new Set(queue);
+    while (queue.length > 0) {
+      const nodeId = queue.shift()!;
+      if (nodeId === sourceNodeId) {
+        const path = [nodeId];
+        let current = nodeId;
+        while (previous.has(current)) {
+          current = previous.get(current)!;
+          path.unshift(current);
+        }
+        // Rotate so the loop reads source -> target -> ... -> source
+        return [sourceNodeId, ...path.slice(0, -1)];
+      }
+      (successors.get(nodeId) || new Set<string>()).forEach(nextId => {
+        if (!visited.has(nextId)) {
+          visited.add(nextId);
+          previous.set(nextId, nodeId);
+          queue.push(nextId);
+        }
+      });
+    }
+    return undefined;
+  }
+
+  private getSuccessorMap(): Map<string, Set<string>> {
+    const successors = new Map<string, Set<string>>();
+    this.nodes.forEach((_, nodeId) => successors.set(nodeId, new Set()));
+    this.edges.forEach(edge => {
+      const sourceId = edge.getSourcePort().getNodeId();
+      const targetId = edge.getTargetPort().getNodeId();
+      if (successors.has(sourceId) && successors.has(targetId)) {
+        successors.get(sourceId)!.add(targetId);
+      }
+    });
+    return successors;
   }
 
   public getNodesInBounds(bounds: Bounds): Node[] {
@@ -325,4 +1505,67 @@ export class Graph extends EventEmitter<GraphEvents> {
     const items = this.edgeQuadTree.query(bounds);
     return items.map(item => this.edges.get(item.id)).filter((edge): edge is Edge => edge !== undefined);
   }
+
+  /**
+   * Node under a point; where nodes overlap, the one whose center is closest
+   */
+  public getNodeAt(x: number, y: number): Node | undefined {
+    let closest: Node | undefined;
+    let closestDistance = Infinity;
+    this.nodeQuadTree.queryPoint(x, y).forEach(item => {
+      const node = this.nodes.get(item.id);
+      if (!node) return;
+      const bounds = node.getBounds();
+      const distance = Math.hypot(bounds.x + bounds.width / 2 - x, bounds.y + bounds.height / 2 - y);
+      if (distance < closestDistance) {
+        closest = node;
+        closestDistance = distance;
+      }
+    });
+    return closest;
+  }
+
+  /**
+   * Up to k nodes nearest to a point, measured to their bounds
+   */
+  public getNearestNodes(x: number, y: number, k = 1, options: NearestQueryOptions<Node> = {}): Node[] {
+    const { filter } = options;
+    return this.nodeQuadTree
+      .nearest(x, y, {
+        k,
+        maxDistance: options.maxDistance,
+        filter: filter && (item => {
+          const node = this.nodes.get(item.id);
+          return node !== undefined && filter(node);
+        })
+      })
+      .map(({ item }) => this.nodes.get(item.id))
+      .filter((node): node is Node => node !== undefined);
+  }
+
+  /**
+   * Port whose anchor lies within the radius of a point, closest first
+   */
+  public getPortAt(x: number, y: number, radius = 8): Port | undefined {
+    return this.getNearestPorts(x, y, 1, { maxDistance: radius })[0];
+  }
+
+  /**
+   * Up to k ports nearest to a point, e.g. to snap a dragged connection to
+   * the closest compatible port
+   */
+  public getNearestPorts(x: number, y: number, k = 1, options: NearestQueryOptions<Port> = {}): Port[] {
+    const { filter } = options;
+    return this.portQuadTree
+      .nearest(x, y, {
+        k,
+        maxDistance: options.maxDistance,
+        filter: filter && (item => {
+          const port = this.getPort(item.id);
+          return port !== undefined && filter(port);
+        })
+      })
+      .map(({ item }) => this.getPort(item.id))
+      .filter((port): port is Port => port !== undefined);
+  }
 } 
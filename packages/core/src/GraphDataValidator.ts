@@ -0,0 +1,234 @@
+import type { GraphData } from './Graph';
+import type { NodeData } from './Node';
+import type { EdgeData } from './Edge';
+import type { PortData } from './Port';
+import type { NodeRegistry } from './NodeRegistry';
+import { isSubgraphType } from './Subgraph';
+
+export interface GraphDataIssue {
+  path: string;  // JSON path of the offending value, e.g. edges[3].targetPortId
+  message: string;
+}
+
+export interface GraphDataValidationOptions {
+  /**
+   * When set, node types must be registered
+   */
+  registry?: NodeRegistry;
+}
+
+export interface GraphDataValidationResult {
+  valid: boolean;
+  issues: GraphDataIssue[];
+  /**
+   * Copy of the input without the items that cannot be loaded
+   */
+  data: GraphData;
+}
+
+export class GraphDataError extends Error {
+  public readonly issues: GraphDataIssue[];
+
+  constructor(issues: GraphDataIssue[]) {
+    const details = issues.slice(0, 5).map(issue => `${issue.path}: ${issue.message}`).join('; ');
+    const more = issues.length > 5 ? ` (and ${issues.length - 5} more)` : '';
+    super(`Invalid graph data: ${details}${more}`);
+    this.name = 'GraphDataError';
+    this.issues = issues;
+  }
+}
+
+const isObject = (value: unknown): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isNonEmptyString = (value: unknown): value is string =>
+  typeof value === 'string' && value.length > 0;
+
+const isFiniteNumber = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value);
+
+/**
+ * Check untrusted graph data before it is turned into a Graph.
+ * Every problem is reported with its JSON path; the returned data skips nodes,
+ * ports and edges that cannot be loaded and fills in harmless defaults.
+ * @param data Parsed document
+ * @param options Validation options
+ */
+export function validateGraphData(data: unknown, options: GraphDataValidationOptions = {}): GraphDataValidationResult {
+  const issues: GraphDataIssue[] = [];
+  const cleaned = validateLevel(data, '', issues, options);
+  return { valid: issues.length === 0, issues, data: cleaned };
+}
+
+function validateLevel(
+  data: unknown,
+  prefix: string,
+  issues: GraphDataIssue[],
+  options: GraphDataValidationOptions
+): GraphData {
+  const report = (path: string, message: string) => issues.push({ path: `${prefix}${path}`, message });
+  const sep = prefix ? '.' : '';
+  const root = isObject(data) ? data : {};
+  if (!isObject(data)) {
+    report(prefix ? '' : '$', 'Graph data must be an object');
+  }
+
+  if (!isNonEmptyString(root.id)) report(`${sep}id`, 'Graph id must be a non-empty string');
+  if (typeof root.name !== 'string') report(`${sep}name`, 'Graph name must be a string');
+  if (root.formatVersion !== undefined && !isFiniteNumber(root.formatVersion)) {
+    report(`${sep}formatVersion`, 'Format version must be a number');
+  }
+
+  const nodes: NodeData[] = [];
+  const ports = new Map<string, 'input' | 'output'>();
+  const nodeIds = new Set<string>();
+
+  if (!Array.isArray(root.nodes)) {
+    report(`${sep}nodes`, 'Nodes must be an array');
+  } else {
+    root.nodes.forEach((node: unknown, i: number) => {
+      const path = `${sep}nodes[${i}]`;
+      if (!isObject(node)) {
+        report(path, 'Node must be an object');
+        return;
+      }
+      if (!isNonEmptyString(node.id)) {
+        report(`${path}.id`, 'Node id must be a non-empty string');
+        return;
+      }
+      if (nodeIds.has(node.id)) {
+        report(`${path}.id`, `Duplicate node id ${node.id}`);
+        return;
+      }
+      if (typeof node.type !== 'string') {
+        report(`${path}.type`, 'Node type must be a string');
+        return;
+      }
+      if (options.registry && !isSubgraphType(node.type) && !options.registry.has(node.type)) {
+        report(`${path}.type`, `Unknown node type: ${node.type}`);
+        return;
+      }
+      nodeIds.add(node.id);
+
+      const cleanedNode: NodeData = { ...(node as NodeData) };
+      if (typeof node.name !== 'string') {
+        report(`${path}.name`, 'Node name must be a string');
+        cleanedNode.name = node.id;
+      }
+      (['x', 'y'] as const).forEach(axis => {
+        if (!isFiniteNumber(node[axis])) {
+          report(`${path}.${axis}`, `Node ${axis} must be a finite number`);
+          cleanedNode[axis] = 0;
+        }
+      });
+      if (node.properties !== undefined && !isObject(node.properties)) {
+        report(`${path}.properties`, 'Node properties must be an object');
+        cleanedNode.properties = {};
+      }
+
+      (['inputs', 'outputs'] as const).forEach(key => {
+        if (node[key] === undefined) return;
+        const portType = key === 'inputs' ? 'input' : 'output';
+        if (!Array.isArray(node[key])) {
+          report(`${path}.${key}`, `Node ${key} must be an array`);
+          cleanedNode[key] = [];
+          return;
+        }
+        cleanedNode[key] = node[key].filter((port: unknown, j: number) =>
+          validatePort(port, portType, `${path}.${key}[${j}]`, ports, report)
+        ) as Omit<PortData, 'nodeId'>[];
+      });
+
+      if (node.subgraph !== undefined) {
+        cleanedNode.subgraph = validateLevel(node.subgraph, `${prefix}${path}.subgraph`, issues, options);
+      }
+      nodes.push(cleanedNode);
+    });
+  }
+
+  const edges: EdgeData[] = [];
+  const edgeIds = new Set<string>();
+  if (!Array.isArray(root.edges)) {
+    report(`${sep}edges`, 'Edges must be an array');
+  } else {
+    root.edges.forEach((edge: unknown, k: number) => {
+      const path = `${sep}edges[${k}]`;
+      if (!isObject(edge)) {
+        report(path, 'Edge must be an object');
+        return;
+      }
+      let valid = true;
+      if (!isNonEmptyString(edge.id)) {
+        report(`${path}.id`, 'Edge id must be a non-empty string');
+        valid = false;
+      } else if (edgeIds.has(edge.id)) {
+        report(`${path}.id`, `Duplicate edge id ${edge.id}`);
+        valid = false;
+      }
+      ([['sourcePortId', 'output'], ['targetPortId', 'input']] as const).forEach(([key, expected]) => {
+        const portId = edge[key];
+        if (!isNonEmptyString(portId)) {
+          report(`${path}.${key}`, 'Port id must be a non-empty string');
+          valid = false;
+        } else if (!ports.has(portId)) {
+          report(`${path}.${key}`, `References missing port ${portId}`);
+          valid = false;
+        } else if (ports.get(portId) !== expected) {
+          report(`${path}.${key}`, `Port ${portId} must be an ${expected} port`);
+          valid = false;
+        }
+      });
+      if (valid) {
+        edgeIds.add(edge.id);
+        edges.push(edge as EdgeData);
+      }
+    });
+  }
+
+  return {
+    ...(root as GraphData),
+    id: isNonEmptyString(root.id) ? root.id : 'graph',
+    name: typeof root.name === 'string' ? root.name : '',
+    nodes,
+    edges
+  };
+}
+
+function validatePort(
+  port: unknown,
+  expectedType: 'input' | 'output',
+  path: string,
+  ports: Map<string, 'input' | 'output'>,
+  report: (path: string, message: string) => void
+): boolean {
+  if (!isObject(port)) {
+    report(path, 'Port must be an object');
+    return false;
+  }
+  if (!isNonEmptyString(port.id)) {
+    report(`${path}.id`, 'Port id must be a non-empty string');
+    return false;
+  }
+  if (ports.has(port.id)) {
+    report(`${path}.id`, `Duplicate port id ${port.id}`);
+    return false;
+  }
+  if (port.type !== expectedType) {
+    report(`${path}.type`, `Port type must be ${expectedType}`);
+    return false;
+  }
+  if (typeof port.name !== 'string') {
+    report(`${path}.name`, 'Port name must be a string');
+    return false;
+  }
+  if (port.dataType !== undefined && !isNonEmptyString(port.dataType)) {
+    report(`${path}.dataType`, 'Port data type must be a non-empty string');
+    return false;
+  }
+  if (port.maxConnections !== undefined && !(isFiniteNumber(port.maxConnections) && port.maxConnections >= 0)) {
+    report(`${path}.maxConnections`, 'Port maxConnections must be a non-negative number');
+    return false;
+  }
+  ports.set(port.id, expectedType);
+  return true;
+}
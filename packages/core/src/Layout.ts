@@ -0,0 +1,99 @@
+import type { Node } from './Node';
+import { Point } from './Geometry';
+import { Bounds } from './QuadTree';
+
+/**
+ * Measurements nodes are drawn with; lengths are in world units
+ */
+export interface LayoutStyle {
+  nodeWidth: number;
+  titleHeight: number;
+  minBodyHeight: number;
+  portSpacing: number;   // Vertical distance between two ports on one side
+  bodyPadding: number;   // Space above the first and below the last port row, together
+  portInset: number;     // Distance of the port anchors from the left and right side
+  portRadius: number;
+}
+
+export const defaultLayoutStyle: LayoutStyle = {
+  nodeWidth: 220,
+  titleHeight: 32,
+  minBodyHeight: 68,
+  portSpacing: 40,
+  bodyPadding: 32,
+  portInset: 16,
+  portRadius: 6
+};
+
+/**
+ * Geometry of one node relative to its top-left corner
+ */
+export interface NodeLayout {
+  width: number;
+  height: number;
+  title: Bounds;
+  body: Bounds;
+  ports: Map<string, Point>;  // Port id -> anchor the edges attach to
+}
+
+/**
+ * Computes where nodes and their ports are drawn. The graph applies it to every
+ * node, so the spatial indices and the renderer share the same geometry.
+ */
+export class LayoutModel {
+  private style: LayoutStyle;
+
+  constructor(style: Partial<LayoutStyle> = {}) {
+    this.style = { ...defaultLayoutStyle, ...style };
+  }
+
+  public getStyle(): LayoutStyle {
+    return { ...this.style };
+  }
+
+  /**
+   * Lay out a node
+   * @param size Fixed size, e.g. from a node type definition; measured from the ports when omitted
+   */
+  public measure(node: Node, size?: { width: number; height: number }): NodeLayout {
+    const { nodeWidth, titleHeight, minBodyHeight, portSpacing, bodyPadding, portInset } = this.style;
+    const inputs = node.getInputs();
+    const outputs = node.getOutputs();
+    const rows = Math.max(inputs.length, outputs.length);
+    const width = size ? size.width : nodeWidth;
+    const height = size ? size.height : titleHeight + Math.max(minBodyHeight, rows * portSpacing + bodyPadding);
+    const body = { x: 0, y: titleHeight, width, height: Math.max(height - titleHeight, 0) };
+
+    // Each side is centered in the body on its own
+    const ports = new Map<string, Point>();
+    const place = (portIds: string[], x: number) => {
+      const top = body.y + (body.height - (portIds.length - 1) * portSpacing) / 2;
+      portIds.forEach((portId, index) => ports.set(portId, { x, y: top + index * portSpacing }));
+    };
+    place(inputs.map(port => port.getId()), portInset);
+    place(outputs.map(port => port.getId()), width - portInset);
+
+    return {
+      width,
+      height,
+      title: { x: 0, y: 0, width, height: titleHeight },
+      body,
+      ports
+    };
+  }
+
+  /**
+   * Size the node and move its port anchors to match the layout
+   */
+  public apply(node: Node, size?: { width: number; height: number }): NodeLayout {
+    const layout = this.measure(node, size);
+    [...node.getInputs(), ...node.getOutputs()].forEach(port => {
+      const anchor = layout.ports.get(port.getId())!;
+      port.setOffset(anchor.x, anchor.y);
+    });
+    node.setSize(layout.width, layout.height);
+    return layout;
+  }
+}
+
+export const defaultLayout = new LayoutModel();
@@ -0,0 +1,366 @@
+import type { GraphData } from './Graph';
+import type { NodeData } from './Node';
+import type { EdgeData } from './Edge';
+import { PortSpec, isEqual } from './Diff';
+
+export type ConflictType =
+  | 'add-add'        // Both sides added different items with the same id
+  | 'modify-modify'  // Both sides changed the same field differently
+  | 'modify-delete'  // Ours changed an item theirs deleted
+  | 'delete-modify'  // Ours deleted an item theirs changed
+  | 'dangling-edge'; // An edge kept by one side uses a port the other side removed
+
+export interface MergeConflict {
+  type: ConflictType;
+  kind: 'graph' | 'node' | 'port' | 'edge';
+  id: string;
+  nodeId?: string;  // Owner of a conflicting port
+  field?: string;   // Set for field level conflicts, e.g. position or properties.color
+  base?: any;
+  ours?: any;
+  theirs?: any;
+  message: string;
+  resolution: 'ours' | 'theirs';  // Side currently applied to the merged data
+  resolved: boolean;
+  /**
+   * Apply our side of the conflict to the merged data
+   */
+  useOurs(): void;
+  /**
+   * Apply their side of the conflict to the merged data
+   */
+  useTheirs(): void;
+}
+
+export interface MergeResult {
+  /**
+   * Merged document; unresolved conflicts hold our side
+   */
+  data: GraphData;
+  conflicts: MergeConflict[];
+}
+
+type ConflictDetails = Omit<MergeConflict, 'resolution' | 'resolved' | 'useOurs' | 'useTheirs'>;
+
+interface CollectionHooks<T> {
+  kind: 'node' | 'port' | 'edge';
+  nodeId?: string;
+  label: string;
+  // Live list of the merged data the resolution helpers change
+  list(): T[];
+  merge(base: T, ours: T, theirs: T): T;
+  copy?(item: T): T;  // Keeps the helpers from changing the input documents
+  ports?(item: T): string[];  // Ports whose edges follow the item in and out of the merged data
+}
+
+const copyNode = (node: NodeData): NodeData => ({
+  ...node,
+  properties: { ...node.properties },
+  inputs: [...(node.inputs || [])],
+  outputs: [...(node.outputs || [])]
+});
+
+/**
+ * Merge two documents derived from a common base. Changes made on only one
+ * side are taken over; changes that collide are returned as conflicts whose
+ * helpers switch the merged data between both sides.
+ * @param base Common ancestor
+ * @param ours Our version
+ * @param theirs Their version
+ */
+export function mergeGraphs(base: GraphData, ours: GraphData, theirs: GraphData): MergeResult {
+  const conflicts: MergeConflict[] = [];
+  const data: GraphData = { ...ours, nodes: [], edges: [] };
+
+  const addConflict = (details: ConflictDetails, applyOurs: () => void, applyTheirs: () => void): MergeConflict => {
+    const conflict: MergeConflict = {
+      ...details,
+      resolution: 'ours',
+      resolved: false,
+      useOurs() {
+        applyOurs();
+        conflict.resolution = 'ours';
+        conflict.resolved = true;
+      },
+      useTheirs() {
+        applyTheirs();
+        conflict.resolution = 'theirs';
+        conflict.resolved = true;
+      }
+    };
+    conflicts.push(conflict);
+    return conflict;
+  };
+
+  /**
+   * Three-way merge of a single value; a collision is recorded as a conflict
+   * and our value is kept
+   */
+  const mergeValue = <V>(details: Omit<ConflictDetails, 'type' | 'message'>, b: V, o: V, t: V, set: (value: V) => void): V => {
+    if (isEqual(o, t) || isEqual(b, t)) return o;
+    if (isEqual(b, o)) return t;
+    const what = details.field ? `${details.field} of ${details.kind} ${details.id}` : `${details.kind} ${details.id}`;
+    addConflict(
+      { ...details, type: 'modify-modify', base: b, ours: o, theirs: t, message: `Both sides changed ${what}` },
+      () => set(o),
+      () => set(t)
+    );
+    return o;
+  };
+
+  const findNode = (id: string) => data.nodes.find(node => node.id === id);
+  const hasPort = (document: GraphData, portId: string) => document.nodes.some(node =>
+    [...(node.inputs || []), ...(node.outputs || [])].some(port => port.id === portId)
+  );
+
+  // Edges taken out of the merged data by a resolution helper, keyed by the item that removed them
+  const detachedEdges = new Map<string, EdgeData[]>();
+  /**
+   * Keep the edges in step with ports a resolution helper removed or brought
+   * back: edges of lost ports are taken out, and edges taken out earlier
+   * return once all of their ports exist again
+   */
+  const syncEdges = (key: string, removedPorts: string[]) => {
+    const detached = detachedEdges.get(key) || [];
+    for (let i = data.edges.length - 1; i >= 0; i--) {
+      const edge = data.edges[i];
+      if (removedPorts.includes(edge.sourcePortId) || removedPorts.includes(edge.targetPortId)) {
+        data.edges.splice(i, 1);
+        detached.unshift(edge);
+      }
+    }
+    const restored = detached.filter(edge =>
+      hasPort(data, edge.sourcePortId) &&
+      hasPort(data, edge.targetPortId) &&
+      !data.edges.some(item => item.id === edge.id)
+    );
+    data.edges.push(...restored);
+    detachedEdges.set(key, detached.filter(edge => !restored.includes(edge)));
+  };
+
+  function mergeCollection<T extends { id: string }>(b: T[], o: T[], t: T[], hooks: CollectionHooks<T>): T[] {
+    const baseItems = new Map(b.map(item => [item.id, item]));
+    const ourItems = new Map(o.map(item => [item.id, item]));
+    const theirItems = new Map(t.map(item => [item.id, item]));
+    const result: T[] = [];
+    const copy = (item: T) => hooks.copy ? hooks.copy(item) : item;
+
+    // Update one item of the merged data and carry the edges of its ports along
+    const change = (id: string, update: (list: T[], index: number) => void) => {
+      const list = hooks.list();
+      const index = list.findIndex(item => item.id === id);
+      const before = index !== -1 && hooks.ports ? hooks.ports(list[index]) : [];
+      update(list, index);
+      if (!hooks.ports) return;
+      const current = list.find(item => item.id === id);
+      const after = current ? hooks.ports(current) : [];
+      syncEdges(`${hooks.kind}:${hooks.nodeId || ''}:${id}`, before.filter(portId => !after.includes(portId)));
+    };
+    const insert = (item: T) => change(item.id, (list, index) => {
+      if (index === -1) list.push(copy(item));
+    });
+    const remove = (id: string) => change(id, (list, index) => {
+      if (index !== -1) list.splice(index, 1);
+    });
+    const replace = (item: T) => change(item.id, (list, index) => {
+      if (index !== -1) list[index] = copy(item);
+    });
+    const details = (id: string) => ({ kind: hooks.kind, id, ...(hooks.nodeId ? { nodeId: hooks.nodeId } : {}) });
+
+    const ids = [...o.map(item => item.id), ...t.map(item => item.id).filter(id => !ourItems.has(id))];
+    ids.forEach(id => {
+      const baseItem = baseItems.get(id);
+      const ourItem = ourItems.get(id);
+      const theirItem = theirItems.get(id);
+
+      if (!baseItem) {
+        if (ourItem && theirItem && !isEqual(ourItem, theirItem)) {
+          result.push(copy(ourItem));
+          addConflict(
+            { ...details(id), type: 'add-add', ours: ourItem, theirs: theirItem, message: `Both sides added ${hooks.label} ${id}` },
+            () => replace(ourItem),
+            () => replace(theirItem)
+          );
+        } else {
+          result.push(copy((ourItem || theirItem)!));
+        }
+      } else if (!ourItem) {
+        if (theirItem && !isEqual(baseItem, theirItem)) {
+          addConflict(
+            { ...details(id), type: 'delete-modify', base: baseItem, theirs: theirItem, message: `${hooks.label} ${id} was deleted in ours but changed in theirs` },
+            () => remove(id),
+            () => insert(theirItem)
+          );
+        }
+      } else if (!theirItem) {
+        if (!isEqual(baseItem, ourItem)) {
+          result.push(copy(ourItem));
+          addConflict(
+            { ...details(id), type: 'modify-delete', base: baseItem, ours: ourItem, message: `${hooks.label} ${id} was changed in ours but deleted in theirs` },
+            () => insert(ourItem),
+            () => remove(id)
+          );
+        }
+      } else {
+        result.push(hooks.merge(baseItem, ourItem, theirItem));
+      }
+    });
+    return result;
+  }
+
+  const mergeNode = (b: NodeData, o: NodeData, t: NodeData): NodeData => {
+    const id = o.id;
+    const update = (change: (node: NodeData) => void) => {
+      const node = findNode(id);
+      if (node) change(node);
+    };
+    const node: NodeData = { ...o, properties: { ...o.properties } };
+
+    node.name = mergeValue({ kind: 'node', id, field: 'name' }, b.name, o.name, t.name, value => update(n => { n.name = value; }));
+    node.type = mergeValue({ kind: 'node', id, field: 'type' }, b.type, o.type, t.type, value => update(n => { n.type = value; }));
+    const position = mergeValue(
+      { kind: 'node', id, field: 'position' },
+      { x: b.x, y: b.y }, { x: o.x, y: o.y }, { x: t.x, y: t.y },
+      value => update(n => { n.x = value.x; n.y = value.y; })
+    );
+    node.x = position.x;
+    node.y = position.y;
+
+    const keys = new Set([...Object.keys(o.properties || {}), ...Object.keys(t.properties || {})]);
+    keys.forEach(key => {
+      const value = mergeValue(
+        { kind: 'node', id, field: `properties.${key}` },
+        b.properties?.[key], o.properties?.[key], t.properties?.[key],
+        merged => update(n => {
+          n.properties = { ...n.properties };
+          if (merged === undefined) {
+            delete n.properties[key];
+          } else {
+            n.properties[key] = merged;
+          }
+        })
+      );
+      if (value === undefined) {
+        delete node.properties![key];
+      } else {
+        node.properties![key] = value;
+      }
+    });
+
+    const subgraph = mergeValue({ kind: 'node', id, field: 'subgraph' }, b.subgraph, o.subgraph, t.subgraph,
+      value => update(n => { n.subgraph = value; }));
+    if (subgraph === undefined) {
+      delete node.subgraph;
+    } else {
+      node.subgraph = subgraph;
+    }
+
+    (['inputs', 'outputs'] as const).forEach(key => {
+      node[key] = mergeCollection<PortSpec>(b[key] || [], o[key] || [], t[key] || [], {
+        kind: 'port',
+        nodeId: id,
+        label: 'Port',
+        ports: port => [port.id],
+        list: () => {
+          const owner = findNode(id);
+          if (!owner) return [];
+          owner[key] = owner[key] || [];
+          return owner[key]!;
+        },
+        merge: (basePort, ourPort, theirPort) => mergeValue(
+          { kind: 'port', id: ourPort.id, nodeId: id },
+          basePort, ourPort, theirPort,
+          value => {
+            const owner = findNode(id);
+            const ports = owner && owner[key];
+            const index = ports ? ports.findIndex(port => port.id === value.id) : -1;
+            if (index !== -1) ports![index] = value;
+          }
+        )
+      });
+    });
+    return node;
+  };
+
+  data.name = mergeValue({ kind: 'graph', id: ours.id, field: 'name' }, base.name, ours.name, theirs.name,
+    value => { data.name = value; });
+
+  data.nodes = mergeCollection(base.nodes, ours.nodes, theirs.nodes, {
+    kind: 'node',
+    label: 'Node',
+    list: () => data.nodes,
+    merge: mergeNode,
+    copy: copyNode,
+    ports: node => [...(node.inputs || []), ...(node.outputs || [])].map(port => port.id)
+  });
+
+  data.edges = mergeCollection(base.edges, ours.edges, theirs.edges, {
+    kind: 'edge',
+    label: 'Edge',
+    list: () => data.edges,
+    merge: (b, o, t) => mergeValue({ kind: 'edge', id: o.id }, b, o, t, value => {
+      const index = data.edges.findIndex(edge => edge.id === value.id);
+      if (index !== -1) data.edges[index] = value;
+    })
+  });
+
+  // Edges whose port was removed by the other side
+  // Returns a function that removes the restored port again
+  const restorePort = (document: GraphData, portId: string): (() => void) => {
+    const owner = document.nodes.find(node =>
+      [...(node.inputs || []), ...(node.outputs || [])].some(port => port.id === portId)
+    );
+    if (hasPort(data, portId) || !owner) return () => {};
+    const node = findNode(owner.id);
+    if (!node) {
+      data.nodes.push(copyNode(owner));
+      return () => {
+        data.nodes = data.nodes.filter(item => item.id !== owner.id);
+      };
+    }
+    (['inputs', 'outputs'] as const).forEach(key => {
+      const port = (owner[key] || []).find(item => item.id === portId);
+      if (port) node[key] = [...(node[key] || []), port];
+    });
+    return () => {
+      node.inputs = (node.inputs || []).filter(port => port.id !== portId);
+      node.outputs = (node.outputs || []).filter(port => port.id !== portId);
+    };
+  };
+  [...data.edges].forEach((edge: EdgeData) => {
+    const missing = [edge.sourcePortId, edge.targetPortId].filter(portId => !hasPort(data, portId));
+    if (missing.length === 0) return;
+    const ourEdge = ours.edges.some(item => item.id === edge.id && isEqual(item, edge));
+    let restored: Array<() => void> = [];
+    const keep = () => {
+      if (!data.edges.some(item => item.id === edge.id)) data.edges.push(edge);
+      restored.push(...missing.map(portId => restorePort(ourEdge ? ours : theirs, portId)));
+    };
+    const drop = () => {
+      const index = data.edges.findIndex(item => item.id === edge.id);
+      if (index !== -1) data.edges.splice(index, 1);
+      restored.forEach(undo => undo());
+      restored = [];
+    };
+    addConflict({
+      type: 'dangling-edge',
+      kind: 'edge',
+      id: edge.id,
+      ours: ourEdge ? edge : undefined,
+      theirs: ourEdge ? undefined : edge,
+      message: `Edge ${edge.id} uses port ${missing.join(', ')} removed in ${ourEdge ? 'theirs' : 'ours'}`
+    }, ourEdge ? keep : drop, ourEdge ? drop : keep);
+    // Keep the merged data loadable until the conflict is resolved
+    if (ourEdge) {
+      keep();
+    } else {
+      drop();
+    }
+  });
+
+  return { data, conflicts };
+}
+
+export function getUnresolvedConflicts(result: MergeResult): MergeConflict[] {
+  return result.conflicts.filter(conflict => !conflict.resolved);
+}
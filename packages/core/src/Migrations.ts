@@ -0,0 +1,131 @@
+import type { GraphData } from './Graph';
+import type { GraphDataIssue } from './GraphDataValidator';
+import { ANY_TYPE } from './DataTypes';
+
+/**
+ * Version written by Graph.toJSON.
+ * Documents without a formatVersion are version 1.
+ */
+export const CURRENT_FORMAT_VERSION = 2;
+
+/**
+ * Upgrade a document by exactly one version. Migrations must not mutate their input.
+ * Nested subgraphs are migrated separately, so a migration only handles its own level.
+ */
+export type Migration = (data: GraphData) => GraphData;
+
+export interface MigrateOptions {
+  /**
+   * Refuse documents written by a newer version instead of loading them as they are
+   */
+  strict?: boolean;
+  /**
+   * Receives what lenient mode tolerates, e.g. a document from a newer version
+   */
+  issues?: GraphDataIssue[];
+}
+
+export function getFormatVersion(data: GraphData): number {
+  return data.formatVersion === undefined ? 1 : data.formatVersion;
+}
+
+export class MigrationRegistry {
+  private migrations: Map<number, Migration> = new Map();
+  private targetVersion: number;
+
+  constructor(targetVersion: number = CURRENT_FORMAT_VERSION) {
+    this.targetVersion = targetVersion;
+  }
+
+  /**
+   * Register the migration from one version to the next
+   * @param fromVersion Version the migration reads
+   * @param migration Function producing a document of version fromVersion + 1
+   */
+  public register(fromVersion: number, migration: Migration): void {
+    if (this.migrations.has(fromVersion)) {
+      throw new Error(`Migration from format version ${fromVersion} is already registered`);
+    }
+    this.migrations.set(fromVersion, migration);
+  }
+
+  public getTargetVersion(): number {
+    return this.targetVersion;
+  }
+
+  public needsMigration(data: GraphData): boolean {
+    return getFormatVersion(data) < this.targetVersion;
+  }
+
+  /**
+   * Upgrade a document step by step to the target version, including nested subgraphs
+   * @param data Document of any version
+   * @param options Migration options
+   */
+  public migrate(data: GraphData, options: MigrateOptions = {}): GraphData {
+    // Malformed documents are left to GraphData validation
+    if (typeof data !== 'object' || data === null) {
+      return data;
+    }
+
+    let version = getFormatVersion(data);
+    if (version > this.targetVersion) {
+      const message = `Graph format version ${version} is newer than the supported version ${this.targetVersion}`;
+      if (options.strict) {
+        throw new Error(message);
+      }
+      if (options.issues) {
+        options.issues.push({ path: 'formatVersion', message: `${message}, loaded as is` });
+      }
+    }
+
+    let migrated = data;
+    while (version < this.targetVersion) {
+      const migration = this.migrations.get(version);
+      if (!migration) {
+        throw new Error(`No migration registered from graph format version ${version}`);
+      }
+      migrated = { ...migration(migrated), formatVersion: version + 1 };
+      version++;
+    }
+
+    if (!Array.isArray(migrated.nodes) || !migrated.nodes.some(node => node && node.subgraph)) {
+      return migrated;
+    }
+    return {
+      ...migrated,
+      nodes: migrated.nodes.map(node => node && node.subgraph
+        // Subgraphs are written with their document, so its version is reported once
+        ? { ...node, subgraph: this.migrate({ formatVersion: getFormatVersion(data), ...node.subgraph }, { strict: options.strict }) }
+        : node
+      )
+    };
+  }
+}
+
+/**
+ * Version 2 makes port data types and node properties explicit
+ */
+export const migrateV1ToV2: Migration = data => {
+  const isObject = (value: any) => typeof value === 'object' && value !== null;
+  const migratePorts = (ports: any) => Array.isArray(ports)
+    ? ports.map(port => isObject(port) ? { ...port, dataType: port.dataType || ANY_TYPE } : port)
+    : ports;
+
+  return {
+    ...data,
+    nodes: Array.isArray(data.nodes)
+      ? data.nodes.map(node => isObject(node)
+        ? { ...node, inputs: migratePorts(node.inputs), outputs: migratePorts(node.outputs), properties: node.properties || {} }
+        : node)
+      : data.nodes
+  };
+};
+
+export function createDefaultMigrations(): MigrationRegistry {
+  const registry = new MigrationRegistry();
+  registry.register(1, migrateV1ToV2);
+  return registry;
+}
+
+export const defaultMigrations = createDefaultMigrations();
@@ -0,0 +1,23 @@
+/**
+ * Payload of a "before" event such as node:adding. Listeners may rewrite the
+ * fields of data or cancel the change; the graph applies whatever is left
+ * once every listener has run.
+ */
+export interface MutationHook<T> {
+  data: T;
+  canceled: boolean;
+  reason?: string;
+  cancel(reason?: string): void;
+}
+
+export function createMutationHook<T>(data: T): MutationHook<T> {
+  const hook: MutationHook<T> = {
+    data,
+    canceled: false,
+    cancel(reason?: string) {
+      hook.canceled = true;
+      hook.reason = reason;
+    }
+  };
+  return hook;
+}
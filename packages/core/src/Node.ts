@@ -1,15 +1,25 @@
 import { EventEmitter } from './EventEmitter';
-import { Port, PortData } from './Port';
+import { Port, PortData, PortSetting } from './Port';
 import { Bounds } from './QuadTree';
 import { Cache } from './Cache';
+import type { GraphData } from './Graph';
+import { MutationHook, createMutationHook } from './MutationHook';
 
 export interface NodeEvents {
-  'moving': [x: number, y: number];
-  'moved': [x: number, y: number];
+  'moving': [x: number, y: number, move: MutationHook<{ x: number; y: number }>];
+  'moved': [x: number, y: number, previousPosition: { x: number; y: number }];
+  'resized': [width: number, height: number, previousSize: { width: number; height: number }];
+  'renamed': [name: string, previousName: string];
   'port:added': [port: Port];
-  'port:removed': [portId: string];
+  'port:removed': [portId: string, port: Port];
+  'port:changed': [port: Port, setting: PortSetting, value: any, previousValue: any];
+  // existed and exists tell whether the key was there before and after the change
+  'property:changed': [key: string, value: any, previousValue: any, existed: boolean, exists: boolean];
+  'subgraph:changed': [previousSubgraph: GraphData | undefined];
 }
 
+export type NodeProperties = Record<string, any>;
+
 export interface NodeData {
   id: string;
   name: string;
@@ -18,6 +28,8 @@ export interface NodeData {
   y: number;
   inputs?: Omit<PortData, 'nodeId'>[];
   outputs?: Omit<PortData, 'nodeId'>[];
+  properties?: NodeProperties;
+  subgraph?: GraphData;  // Body of a composite node
 }
 
 export class Node extends EventEmitter<NodeEvents> {
@@ -30,9 +42,27 @@ export class Node extends EventEmitter<NodeEvents> {
   private height: number = 60;  // Default node height
   private inputs: Map<string, Port>;
   private outputs: Map<string, Port>;
+  private properties: NodeProperties;
+  private subgraph?: GraphData;
 
   // Use unified cache management
   private cache = new Cache<any>();
+  // Listeners passing port setting changes on, by port id
+  private portListeners = new Map<string, (setting: PortSetting, value: any, previousValue: any) => void>();
+
+  private watchPort(port: Port, watch: boolean): void {
+    const previous = this.portListeners.get(port.getId());
+    if (previous) {
+      port.off('changed', previous);
+      this.portListeners.delete(port.getId());
+    }
+    if (!watch) return;
+    const listener = (setting: PortSetting, value: any, previousValue: any) => {
+      this.emit('port:changed', port, setting, value, previousValue);
+    };
+    port.on('changed', listener);
+    this.portListeners.set(port.getId(), listener);
+  }
 
   private createPorts(portDataList: Omit<PortData, 'nodeId'>[] | undefined, portMap: Map<string, Port>): void {
     (portDataList || []).forEach(portData => {
@@ -41,6 +71,7 @@ export class Node extends EventEmitter<NodeEvents> {
         nodeId: this.id
       });
       portMap.set(port.getId(), port);
+      this.watchPort(port, true);
       this.emit('port:added', port);
     });
   }
@@ -54,6 +85,8 @@ export class Node extends EventEmitter<NodeEvents> {
     this.y = data.y || 0;
     this.inputs = new Map();
     this.outputs = new Map();
+    this.properties = { ...data.properties };
+    this.subgraph = data.subgraph;
 
     // Create input and output ports
     this.createPorts(data.inputs, this.inputs);
@@ -68,6 +101,13 @@ export class Node extends EventEmitter<NodeEvents> {
     return this.name;
   }
 
+  public setName(name: string): void {
+    const previousName = this.name;
+    if (previousName === name) return;
+    this.name = name;
+    this.emit('renamed', name, previousName);
+  }
+
   public getType(): string {
     return this.type;
   }
@@ -76,14 +116,71 @@ export class Node extends EventEmitter<NodeEvents> {
     return this.cache.useCache('position', () => ({ x: this.x, y: this.y }));
   }
 
-  public setPosition(x: number, y: number): void {
-    this.emit('moving', x, y);
+  /**
+   * Move the node; listeners of the moving event may adjust or cancel the move
+   * @returns False when the move was canceled
+   */
+  public setPosition(x: number, y: number): boolean {
+    const move = createMutationHook({ x, y });
+    this.emit('moving', x, y, move);
+    if (move.canceled) return false;
+
+    this.restorePosition(move.data.x, move.data.y);
+    return true;
+  }
+
+  /**
+   * Move the node without running the moving hooks, e.g. to replay a recorded move
+   */
+  public restorePosition(x: number, y: number): void {
+    const previousPosition = this.getPosition();
     this.x = x;
     this.y = y;
     // Clear related cache
     this.cache.clear('position');
     this.cache.clear('bounds');
-    this.emit('moved', x, y);
+    this.emit('moved', this.x, this.y, previousPosition);
+  }
+
+  public getProperty<T = any>(key: string): T | undefined {
+    return this.properties[key];
+  }
+
+  public setProperty<T = any>(key: string, value: T): void {
+    const previousValue = this.properties[key];
+    if (previousValue === value) return;
+    const existed = this.hasProperty(key);
+    this.properties[key] = value;
+    this.emit('property:changed', key, value, previousValue, existed, true);
+  }
+
+  public removeProperty(key: string): void {
+    if (!this.hasProperty(key)) return;
+    const previousValue = this.properties[key];
+    delete this.properties[key];
+    this.emit('property:changed', key, undefined, previousValue, true, false);
+  }
+
+  public hasProperty(key: string): boolean {
+    return key in this.properties;
+  }
+
+  public getProperties(): Readonly<NodeProperties> {
+    return { ...this.properties };
+  }
+
+  public isComposite(): boolean {
+    return this.subgraph !== undefined;
+  }
+
+  public getSubgraph(): GraphData | undefined {
+    return this.subgraph;
+  }
+
+  public setSubgraph(subgraph: GraphData | undefined): void {
+    const previousSubgraph = this.subgraph;
+    this.subgraph = subgraph;
+    this.emit('subgraph:changed', previousSubgraph);
   }
 
   public getInputs(): Port[] {
@@ -110,26 +207,34 @@ export class Node extends EventEmitter<NodeEvents> {
 
   public addInput(port: Port): void {
     this.inputs.set(port.getId(), port);
+    this.watchPort(port, true);
     this.cache.clear('ports');
     this.emit('port:added', port);
   }
 
   public addOutput(port: Port): void {
     this.outputs.set(port.getId(), port);
+    this.watchPort(port, true);
     this.cache.clear('ports');
     this.emit('port:added', port);
   }
 
   public removeInput(portId: string): void {
+    const port = this.inputs.get(portId);
+    if (!port) return;
     this.inputs.delete(portId);
+    this.watchPort(port, false);
     this.cache.clear('ports');
-    this.emit('port:removed', portId);
+    this.emit('port:removed', portId, port);
   }
 
   public removeOutput(portId: string): void {
+    const port = this.outputs.get(portId);
+    if (!port) return;
     this.outputs.delete(portId);
+    this.watchPort(port, false);
     this.cache.clear('ports');
-    this.emit('port:removed', portId);
+    this.emit('port:removed', portId, port);
   }
 
   public toJSON(): NodeData {
@@ -140,7 +245,9 @@ export class Node extends EventEmitter<NodeEvents> {
       x: this.x,
       y: this.y,
       inputs: this.getInputs().map(port => port.toJSON()),
-      outputs: this.getOutputs().map(port => port.toJSON())
+      outputs: this.getOutputs().map(port => port.toJSON()),
+      properties: { ...this.properties },
+      ...(this.subgraph ? { subgraph: this.subgraph } : {})
     };
   }
 
@@ -148,19 +255,29 @@ export class Node extends EventEmitter<NodeEvents> {
     return new Node(data);
   }
 
+  /**
+   * Area covered by the node; its position is the top-left corner
+   */
   public getBounds(): Bounds {
     return this.cache.useCache('bounds', () => ({
-      x: this.x - this.width / 2,
-      y: this.y - this.height / 2,
+      x: this.x,
+      y: this.y,
       width: this.width,
       height: this.height
     }));
   }
 
+  public getSize(): { width: number; height: number } {
+    return { width: this.width, height: this.height };
+  }
+
   public setSize(width: number, height: number): void {
+    if (width === this.width && height === this.height) return;
+    const previousSize = this.getSize();
     this.width = width;
     this.height = height;
     // Clear related cache
     this.cache.clear('bounds');
+    this.emit('resized', width, height, previousSize);
   }
 } 
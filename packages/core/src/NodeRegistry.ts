@@ -0,0 +1,147 @@
+import { Node, NodeData, NodeProperties } from './Node';
+import { PortData } from './Port';
+import type { ComputeFunction } from './Executor';
+
+export interface PortDefinition {
+  key: string;  // Port id suffix, unique within the node type
+  name: string;
+  dataType?: string;
+  maxConnections?: number;
+  value?: any;
+}
+
+export interface NodeDefinition {
+  type: string;
+  name: string;
+  category?: string;
+  inputs?: PortDefinition[];
+  outputs?: PortDefinition[];
+  width?: number;
+  height?: number;
+  properties?: NodeProperties;  // Default property values
+  compute?: ComputeFunction;
+}
+
+export interface CreateNodeOptions {
+  id: string;
+  name?: string;
+  x?: number;
+  y?: number;
+}
+
+export class NodeRegistry {
+  private definitions: Map<string, NodeDefinition> = new Map();
+
+  public register(definition: NodeDefinition): void {
+    if (this.definitions.has(definition.type)) {
+      throw new Error(`Node type ${definition.type} is already registered`);
+    }
+    this.definitions.set(definition.type, definition);
+  }
+
+  public unregister(type: string): void {
+    this.definitions.delete(type);
+  }
+
+  public has(type: string): boolean {
+    return this.definitions.has(type);
+  }
+
+  public get(type: string): NodeDefinition | undefined {
+    return this.definitions.get(type);
+  }
+
+  public getAll(): NodeDefinition[] {
+    return Array.from(this.definitions.values());
+  }
+
+  public getByCategory(category: string): NodeDefinition[] {
+    return this.getAll().filter(definition => definition.category === category);
+  }
+
+  public getCategories(): string[] {
+    const categories = new Set<string>();
+    this.definitions.forEach(definition => {
+      if (definition.category) {
+        categories.add(definition.category);
+      }
+    });
+    return Array.from(categories);
+  }
+
+  /**
+   * Build node data for a registered type
+   * @param type Registered node type
+   * @param options Id, name and position of the new node
+   */
+  public createNodeData(type: string, options: CreateNodeOptions): NodeData {
+    const definition = this.getDefinitionOrThrow(type);
+    return {
+      id: options.id,
+      name: options.name || definition.name,
+      type,
+      x: options.x || 0,
+      y: options.y || 0,
+      inputs: this.createPortData(options.id, definition.inputs, 'input'),
+      outputs: this.createPortData(options.id, definition.outputs, 'output'),
+      properties: { ...definition.properties }
+    };
+  }
+
+  public createNode(type: string, options: CreateNodeOptions): Node {
+    const definition = this.getDefinitionOrThrow(type);
+    const node = new Node(this.createNodeData(type, options));
+    if (definition.width !== undefined && definition.height !== undefined) {
+      node.setSize(definition.width, definition.height);
+    }
+    return node;
+  }
+
+  /**
+   * Replace the ports of node data with the ports declared by its type.
+   * Values of ports that still exist are kept, and missing properties get their defaults.
+   * @param data Node data of a registered type
+   */
+  public rebuildNodeData(data: NodeData): NodeData {
+    const definition = this.getDefinitionOrThrow(data.type);
+    const existing = new Map<string, Omit<PortData, 'nodeId'>>();
+    [...(data.inputs || []), ...(data.outputs || [])].forEach(port => existing.set(port.id, port));
+
+    const keepValues = (ports: Omit<PortData, 'nodeId'>[]) => ports.map(port => {
+      const previous = existing.get(port.id);
+      return previous && previous.type === port.type && previous.value !== undefined
+        ? { ...port, value: previous.value }
+        : port;
+    });
+
+    return {
+      ...data,
+      inputs: keepValues(this.createPortData(data.id, definition.inputs, 'input')),
+      outputs: keepValues(this.createPortData(data.id, definition.outputs, 'output')),
+      properties: { ...definition.properties, ...data.properties }
+    };
+  }
+
+  private createPortData(
+    nodeId: string,
+    definitions: PortDefinition[] | undefined,
+    type: 'input' | 'output'
+  ): Omit<PortData, 'nodeId'>[] {
+    return (definitions || []).map(definition => ({
+      id: `${nodeId}-${definition.key}`,
+      name: definition.name,
+      type,
+      dataType: definition.dataType,
+      maxConnections: definition.maxConnections,
+      value: definition.value
+    }));
+  }
+
+  private getDefinitionOrThrow(type: string): NodeDefinition {
+    const definition = this.definitions.get(type);
+    if (!definition) {
+      throw new Error(`Unknown node type: ${type}`);
+    }
+    return definition;
+  }
+}
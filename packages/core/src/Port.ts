@@ -1,10 +1,15 @@
 import { EventEmitter } from './EventEmitter';
 import type { Node } from './Node';
+import { ANY_TYPE, ConnectionCheck, DataTypeRegistry, defaultDataTypes } from './DataTypes';
+
+// Port settings that can change while the port is in use
+export type PortSetting = 'name' | 'dataType' | 'maxConnections';
 
 export interface PortEvents {
   'connected': [targetPort: Port];
   'disconnected': [];
   'value:changed': [value: any];
+  'changed': [setting: PortSetting, value: any, previousValue: any];
 }
 
 export interface PortData {
@@ -12,6 +17,8 @@ export interface PortData {
   name: string;
   type: 'input' | 'output';
   nodeId: string;
+  dataType?: string;
+  maxConnections?: number;  // Unlimited when omitted
   value?: any;
 }
 
@@ -20,6 +27,8 @@ export class Port extends EventEmitter<PortEvents> {
   private name: string;
   private type: 'input' | 'output';
   private nodeId: string;
+  private dataType: string;
+  private maxConnections?: number;
   private value: any;
   private offsetX: number = 0;  // X offset relative to node
   private offsetY: number = 0;  // Y offset relative to node
@@ -30,6 +39,8 @@ export class Port extends EventEmitter<PortEvents> {
     this.name = data.name;
     this.type = data.type;
     this.nodeId = data.nodeId;
+    this.dataType = data.dataType || ANY_TYPE;
+    this.maxConnections = data.maxConnections;
     this.value = data.value;
 
     // Set default offset based on port type
@@ -52,10 +63,46 @@ export class Port extends EventEmitter<PortEvents> {
     return this.type;
   }
 
+  public setName(name: string): void {
+    const previousName = this.name;
+    if (previousName === name) return;
+    this.name = name;
+    this.emit('changed', 'name', name, previousName);
+  }
+
   public getNodeId(): string {
     return this.nodeId;
   }
 
+  public getDataType(): string {
+    return this.dataType;
+  }
+
+  /**
+   * Change the data type; edges that no longer fit are left to the graph
+   */
+  public setDataType(dataType: string = ANY_TYPE): void {
+    const previousDataType = this.dataType;
+    if (previousDataType === dataType) return;
+    this.dataType = dataType;
+    this.emit('changed', 'dataType', dataType, previousDataType);
+  }
+
+  public getMaxConnections(): number {
+    return this.maxConnections === undefined ? Infinity : this.maxConnections;
+  }
+
+  /**
+   * Change the connection limit; undefined removes it. Edges over the limit are
+   * left to the graph.
+   */
+  public setMaxConnections(maxConnections: number | undefined): void {
+    const previousMaxConnections = this.maxConnections;
+    if (previousMaxConnections === maxConnections) return;
+    this.maxConnections = maxConnections;
+    this.emit('changed', 'maxConnections', maxConnections, previousMaxConnections);
+  }
+
   public getValue(): any {
     return this.value;
   }
@@ -65,8 +112,23 @@ export class Port extends EventEmitter<PortEvents> {
     this.emit('value:changed', value);
   }
 
-  public canConnect(targetPort: Port): boolean {
-    return this.type !== targetPort.type;
+  public canConnect(targetPort: Port, dataTypes: DataTypeRegistry = defaultDataTypes): boolean {
+    return this.checkConnection(targetPort, dataTypes).allowed;
+  }
+
+  /**
+   * Check whether this port can feed the target port, with the reason when it cannot
+   * @param targetPort Port at the other end of the connection
+   * @param dataTypes Data type compatibility table
+   */
+  public checkConnection(targetPort: Port, dataTypes: DataTypeRegistry = defaultDataTypes): ConnectionCheck {
+    if (this.type === targetPort.type) {
+      return { allowed: false, reason: `Cannot connect two ${this.type} ports` };
+    }
+    if (this.type === 'input') {
+      return { allowed: false, reason: 'Source port cannot be an input port' };
+    }
+    return dataTypes.check(this.dataType, targetPort.dataType);
   }
 
   public connect(targetPort: Port): void {
@@ -85,6 +147,8 @@ export class Port extends EventEmitter<PortEvents> {
       name: this.name,
       type: this.type,
       nodeId: this.nodeId,
+      dataType: this.dataType,
+      maxConnections: this.maxConnections,
       value: this.value
     };
   }
@@ -94,6 +158,8 @@ export class Port extends EventEmitter<PortEvents> {
     this.name = data.name;
     this.type = data.type;
     this.nodeId = data.nodeId;
+    this.dataType = data.dataType || ANY_TYPE;
+    this.maxConnections = data.maxConnections;
     this.value = data.value;
   }
 
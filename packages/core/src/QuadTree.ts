@@ -10,117 +10,350 @@ export interface QuadTreeItem {
   bounds: Bounds;
 }
 
-export class QuadTree {
-  private static readonly MAX_ITEMS = 4;
-  private static readonly MAX_DEPTH = 8;
+export interface NearestOptions {
+  /**
+   * Number of items to return (default 1)
+   */
+  k?: number;
+  /**
+   * Items farther away than this are ignored
+   */
+  maxDistance?: number;
+  /**
+   * Skip items the predicate refuses; the search continues past them
+   */
+  filter?: (item: QuadTreeItem) => boolean;
+}
 
-  private bounds: Bounds;
-  private items: QuadTreeItem[];
-  private nodes: QuadTree[];
-  private depth: number;
+export interface QuadTreeNeighbor {
+  item: QuadTreeItem;
+  distance: number;  // 0 when the point lies inside the item
+}
+
+export interface QuadTreeOptions {
+  /**
+   * Items a cell holds before it is split (default 4)
+   */
+  maxItems?: number;
+  /**
+   * Cells smaller than this are not split further (default 16)
+   */
+  minCellSize?: number;
+  /**
+   * Side length of the first root cell; the root doubles from there as items
+   * are added outside of it (default 1024)
+   */
+  initialSize?: number;
+}
 
-  constructor(bounds: Bounds, depth: number = 0) {
-    this.bounds = bounds;
-    this.items = [];
-    this.nodes = [];
-    this.depth = depth;
+class QuadTreeCell {
+  public items: QuadTreeItem[] = [];
+  public children: QuadTreeCell[] = [];
+  public count = 0;  // Items in this cell and all cells below it
+  public parent?: QuadTreeCell;
+
+  constructor(public bounds: Bounds) {}
+}
+
+function contains(outer: Bounds, inner: Bounds): boolean {
+  return (
+    inner.x >= outer.x &&
+    inner.y >= outer.y &&
+    inner.x + inner.width <= outer.x + outer.width &&
+    inner.y + inner.height <= outer.y + outer.height
+  );
+}
+
+function intersects(bounds1: Bounds, bounds2: Bounds): boolean {
+  return !(
+    bounds1.x + bounds1.width < bounds2.x ||
+    bounds1.x > bounds2.x + bounds2.width ||
+    bounds1.y + bounds1.height < bounds2.y ||
+    bounds1.y > bounds2.y + bounds2.height
+  );
+}
+
+// Distance from a point to the closest point of a rectangle
+function distanceTo(bounds: Bounds, x: number, y: number): number {
+  const dx = Math.max(bounds.x - x, 0, x - (bounds.x + bounds.width));
+  const dy = Math.max(bounds.y - y, 0, y - (bounds.y + bounds.height));
+  return Math.sqrt(dx * dx + dy * dy);
+}
+
+// Binary heap ordered by priority, smallest first
+class MinQueue<T> {
+  private entries: Array<{ priority: number; value: T }> = [];
+
+  public get size(): number {
+    return this.entries.length;
   }
 
-  public insert(item: QuadTreeItem): boolean {
-    if (!this.contains(item.bounds)) {
-      return false;
+  public push(priority: number, value: T): void {
+    const entries = this.entries;
+    entries.push({ priority, value });
+    let index = entries.length - 1;
+    while (index > 0) {
+      const parent = (index - 1) >> 1;
+      if (entries[parent].priority <= entries[index].priority) break;
+      [entries[parent], entries[index]] = [entries[index], entries[parent]];
+      index = parent;
     }
+  }
 
-    if (this.items.length < QuadTree.MAX_ITEMS && this.depth === 0) {
-      this.items.push(item);
-      return true;
+  public pop(): { priority: number; value: T } | undefined {
+    const entries = this.entries;
+    const top = entries[0];
+    const last = entries.pop();
+    if (entries.length > 0 && last) {
+      entries[0] = last;
+      let index = 0;
+      for (;;) {
+        const left = index * 2 + 1;
+        const right = left + 1;
+        let smallest = index;
+        if (left < entries.length && entries[left].priority < entries[smallest].priority) smallest = left;
+        if (right < entries.length && entries[right].priority < entries[smallest].priority) smallest = right;
+        if (smallest === index) break;
+        [entries[smallest], entries[index]] = [entries[index], entries[smallest]];
+        index = smallest;
+      }
     }
+    return top;
+  }
+}
 
-    if (this.depth < QuadTree.MAX_DEPTH) {
-      if (this.nodes.length === 0) {
-        this.subdivide();
-      }
+function quadrants({ x, y, width, height }: Bounds): Bounds[] {
+  const halfWidth = width / 2;
+  const halfHeight = height / 2;
+  return [
+    { x, y, width: halfWidth, height: halfHeight },
+    { x: x + halfWidth, y, width: halfWidth, height: halfHeight },
+    { x, y: y + halfHeight, width: halfWidth, height: halfHeight },
+    { x: x + halfWidth, y: y + halfHeight, width: halfWidth, height: halfHeight }
+  ];
+}
 
-      for (const node of this.nodes) {
-        if (node.insert(item)) {
-          return true;
-        }
-      }
+/**
+ * Spatial index over rectangles. The root cell grows to cover items added
+ * anywhere and shrinks again as items are removed, so there are no world bounds.
+ */
+export class QuadTree {
+  private root?: QuadTreeCell;
+  private cells: Map<string, QuadTreeCell> = new Map();  // Item id -> cell holding it
+  private maxItems: number;
+  private minCellSize: number;
+  private initialSize: number;
+
+  constructor(options: QuadTreeOptions = {}) {
+    this.maxItems = options.maxItems || 4;
+    this.minCellSize = options.minCellSize || 16;
+    this.initialSize = options.initialSize || 1024;
+  }
+
+  /**
+   * Add an item, replacing an item with the same id
+   * @returns False when the bounds are not finite numbers
+   */
+  public insert(item: QuadTreeItem): boolean {
+    const { x, y, width, height } = item.bounds;
+    if (![x, y, width, height].every(Number.isFinite)) {
+      return false;
     }
+    if (this.cells.has(item.id)) {
+      this.remove(item.id);
+    }
+    this.cover(item.bounds);
 
-    this.items.push(item);
+    let cell = this.root!;
+    for (;;) {
+      cell.count++;
+      if (cell.children.length === 0 && cell.items.length >= this.maxItems && cell.bounds.width / 2 >= this.minCellSize) {
+        this.split(cell);
+      }
+      const child = cell.children.find(candidate => contains(candidate.bounds, item.bounds));
+      if (!child) break;
+      cell = child;
+    }
+    cell.items.push(item);
+    this.cells.set(item.id, cell);
     return true;
   }
 
   public query(bounds: Bounds): QuadTreeItem[] {
     const result: QuadTreeItem[] = [];
-
-    if (!this.intersects(bounds)) {
-      return result;
+    const visit = (cell: QuadTreeCell) => {
+      if (cell.count === 0 || !intersects(cell.bounds, bounds)) return;
+      cell.items.forEach(item => {
+        if (intersects(item.bounds, bounds)) {
+          result.push(item);
+        }
+      });
+      cell.children.forEach(visit);
+    };
+    if (this.root) {
+      visit(this.root);
     }
+    return result;
+  }
 
-    for (const item of this.items) {
-      if (this.intersects(item.bounds, bounds)) {
-        result.push(item);
-      }
-    }
+  /**
+   * Items whose bounds contain the point, edges included
+   */
+  public queryPoint(x: number, y: number): QuadTreeItem[] {
+    return this.query({ x, y, width: 0, height: 0 });
+  }
 
-    for (const node of this.nodes) {
-      result.push(...node.query(bounds));
-    }
+  /**
+   * Items closest to a point, nearest first. Distances are measured to the
+   * item bounds, so items containing the point come first.
+   */
+  public nearest(x: number, y: number, options: NearestOptions = {}): QuadTreeNeighbor[] {
+    const k = options.k === undefined ? 1 : options.k;
+    const maxDistance = options.maxDistance === undefined ? Infinity : options.maxDistance;
+    const result: QuadTreeNeighbor[] = [];
+    if (!this.root || k <= 0) return result;
 
+    // Best-first search: cells and items share one queue keyed by distance
+    const queue = new MinQueue<QuadTreeCell | QuadTreeItem>();
+    queue.push(distanceTo(this.root.bounds, x, y), this.root);
+    while (queue.size > 0 && result.length < k) {
+      const { priority: distance, value } = queue.pop()!;
+      if (distance > maxDistance) break;
+      if (!(value instanceof QuadTreeCell)) {
+        result.push({ item: value, distance });
+        continue;
+      }
+      value.items.forEach(item => {
+        if (!options.filter || options.filter(item)) {
+          queue.push(distanceTo(item.bounds, x, y), item);
+        }
+      });
+      value.children.forEach(child => {
+        if (child.count > 0) {
+          queue.push(distanceTo(child.bounds, x, y), child);
+        }
+      });
+    }
     return result;
   }
 
   public remove(itemId: string): boolean {
-    const index = this.items.findIndex(item => item.id === itemId);
-    if (index !== -1) {
-      this.items.splice(index, 1);
-      return true;
-    }
+    const cell = this.cells.get(itemId);
+    if (!cell) return false;
 
-    for (const node of this.nodes) {
-      if (node.remove(itemId)) {
-        return true;
-      }
+    cell.items = cell.items.filter(item => item.id !== itemId);
+    this.cells.delete(itemId);
+    for (let current: QuadTreeCell | undefined = cell; current; current = current.parent) {
+      current.count--;
     }
 
-    return false;
+    // Merge cells that no longer need to be split
+    let merged: QuadTreeCell | undefined;
+    for (let current: QuadTreeCell | undefined = cell; current && current.count <= this.maxItems; current = current.parent) {
+      merged = current;
+    }
+    if (merged) {
+      this.merge(merged);
+    }
+    this.shrink();
+    return true;
   }
 
   public clear(): void {
-    this.items = [];
-    this.nodes = [];
+    this.root = undefined;
+    this.cells.clear();
+  }
+
+  public size(): number {
+    return this.cells.size;
   }
 
-  private subdivide(): void {
-    const { x, y, width, height } = this.bounds;
-    const halfWidth = width / 2;
-    const halfHeight = height / 2;
+  /**
+   * Area currently covered by the root cell, undefined while the tree is empty
+   */
+  public getBounds(): Bounds | undefined {
+    return this.root && { ...this.root.bounds };
+  }
+
+  // Grow the root until it contains the bounds
+  private cover(bounds: Bounds): void {
+    const size = this.initialSize;
+    let root: QuadTreeCell = this.root || new QuadTreeCell({
+      x: Math.floor(bounds.x / size) * size,
+      y: Math.floor(bounds.y / size) * size,
+      width: size,
+      height: size
+    });
+
+    while (!contains(root.bounds, bounds)) {
+      const { x, y, width, height } = root.bounds;
+      // Double toward the item; the old root becomes one quadrant of the new one
+      const grown: QuadTreeCell = new QuadTreeCell({
+        x: bounds.x < x ? x - width : x,
+        y: bounds.y < y ? y - height : y,
+        width: width * 2,
+        height: height * 2
+      });
+      if (root.count > 0) {
+        const previous = root;
+        grown.count = previous.count;
+        grown.children = quadrants(grown.bounds).map(quadrant =>
+          quadrant.x === x && quadrant.y === y ? previous : new QuadTreeCell(quadrant)
+        );
+        grown.children.forEach(child => { child.parent = grown; });
+      }
+      root = grown;
+    }
+    this.root = root;
+  }
 
-    this.nodes = [
-      new QuadTree({ x, y, width: halfWidth, height: halfHeight }, this.depth + 1),
-      new QuadTree({ x: x + halfWidth, y, width: halfWidth, height: halfHeight }, this.depth + 1),
-      new QuadTree({ x, y: y + halfHeight, width: halfWidth, height: halfHeight }, this.depth + 1),
-      new QuadTree({ x: x + halfWidth, y: y + halfHeight, width: halfWidth, height: halfHeight }, this.depth + 1)
-    ];
+  private split(cell: QuadTreeCell): void {
+    cell.children = quadrants(cell.bounds).map(quadrant => new QuadTreeCell(quadrant));
+    cell.children.forEach(child => { child.parent = cell; });
+    const items = cell.items;
+    cell.items = [];
+    items.forEach(item => {
+      const child = cell.children.find(candidate => contains(candidate.bounds, item.bounds));
+      const target = child || cell;
+      target.items.push(item);
+      if (child) child.count++;
+      this.cells.set(item.id, target);
+    });
   }
 
-  private contains(bounds: Bounds): boolean {
-    return (
-      bounds.x >= this.bounds.x &&
-      bounds.y >= this.bounds.y &&
-      bounds.x + bounds.width <= this.bounds.x + this.bounds.width &&
-      bounds.y + bounds.height <= this.bounds.y + this.bounds.height
-    );
+  // Pull every item below a cell back into it
+  private merge(cell: QuadTreeCell): void {
+    const collect = (current: QuadTreeCell): QuadTreeItem[] =>
+      [...current.items, ...current.children.flatMap(collect)];
+    cell.items = collect(cell);
+    cell.children = [];
+    cell.items.forEach(item => this.cells.set(item.id, cell));
   }
 
-  private intersects(bounds1: Bounds, bounds2: Bounds = this.bounds): boolean {
-    return !(
-      bounds1.x + bounds1.width < bounds2.x ||
-      bounds1.x > bounds2.x + bounds2.width ||
-      bounds1.y + bounds1.height < bounds2.y ||
-      bounds1.y > bounds2.y + bounds2.height
-    );
+  // Drop root levels that no longer hold anything beside a single quadrant
+  private shrink(): void {
+    while (this.root) {
+      const root: QuadTreeCell = this.root;
+      if (root.count === 0) {
+        this.root = undefined;
+        return;
+      }
+      const filled = root.children.filter(child => child.count > 0);
+      if (root.items.length === 0 && filled.length === 1) {
+        this.root = filled[0];
+        this.root.parent = undefined;
+        continue;
+      }
+      if (root.children.length === 0 && root.bounds.width > this.initialSize) {
+        const quadrant = quadrants(root.bounds).find(candidate =>
+          root.items.every(item => contains(candidate, item.bounds))
+        );
+        if (quadrant) {
+          root.bounds = quadrant;
+          continue;
+        }
+      }
+      return;
+    }
   }
-} 
+}
@@ -0,0 +1,34 @@
+import type { GraphData } from './Graph';
+import type { NodeData } from './Node';
+
+/**
+ * A composite node has type SUBGRAPH_TYPE and carries its body as nested GraphData.
+ * Each of its ports maps to a boundary node of the inner graph:
+ * - a SUBGRAPH_INPUT_TYPE node exposes the value of a composite input through its single output
+ * - a SUBGRAPH_OUTPUT_TYPE node collects the value of a composite output through its single input
+ * The boundary node stores the id of the composite port in its SUBGRAPH_PORT_PROPERTY property.
+ */
+export const SUBGRAPH_TYPE = 'subgraph';
+export const SUBGRAPH_INPUT_TYPE = 'subgraph.input';
+export const SUBGRAPH_OUTPUT_TYPE = 'subgraph.output';
+export const SUBGRAPH_PORT_PROPERTY = 'port';
+
+export function isSubgraphType(type: string): boolean {
+  return type === SUBGRAPH_TYPE || type === SUBGRAPH_INPUT_TYPE || type === SUBGRAPH_OUTPUT_TYPE;
+}
+
+/**
+ * Map composite port ids to the boundary nodes of the given type
+ * @param data Inner graph data
+ * @param type SUBGRAPH_INPUT_TYPE or SUBGRAPH_OUTPUT_TYPE
+ */
+export function getBoundaryNodes(data: GraphData, type: string): Map<string, NodeData> {
+  const boundaries = new Map<string, NodeData>();
+  data.nodes.forEach(node => {
+    const portId = node.properties?.[SUBGRAPH_PORT_PROPERTY];
+    if (node.type === type && typeof portId === 'string') {
+      boundaries.set(portId, node);
+    }
+  });
+  return boundaries;
+}
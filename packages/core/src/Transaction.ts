@@ -0,0 +1,110 @@
+import type { Graph, GraphData } from './Graph';
+import type { NodeData } from './Node';
+import { Port, PortData, PortSetting } from './Port';
+import type { EdgeData } from './Edge';
+
+/**
+ * A single recorded change. Each entry holds enough data to be applied again
+ * or reverted without looking at the graph it came from.
+ */
+export type GraphChange =
+  | { type: 'node:added'; node: NodeData }
+  | { type: 'node:removed'; node: NodeData }
+  | { type: 'node:moved'; nodeId: string; position: { x: number; y: number }; previousPosition: { x: number; y: number } }
+  | { type: 'node:renamed'; nodeId: string; name: string; previousName: string }
+  | { type: 'node:property:changed'; nodeId: string; key: string; value: any; previousValue: any; existed: boolean; exists: boolean }
+  | { type: 'node:subgraph:changed'; nodeId: string; subgraph?: GraphData; previousSubgraph?: GraphData }
+  | { type: 'port:added'; port: PortData }
+  | { type: 'port:removed'; port: PortData }
+  | { type: 'port:changed'; nodeId: string; portId: string; setting: PortSetting; value: any; previousValue: any }
+  | { type: 'edge:added'; edge: EdgeData }
+  | { type: 'edge:removed'; edge: EdgeData };
+
+// Replays go around the mutation hooks so hooks cannot rewrite or refuse them
+function applyChange(graph: Graph, change: GraphChange, forward: boolean): void {
+  const adds = change.type.endsWith(':added') === forward;
+  switch (change.type) {
+    case 'node:added':
+    case 'node:removed':
+      if (adds) {
+        graph.restoreNode(change.node);
+      } else {
+        graph.discardNode(change.node.id);
+      }
+      break;
+    case 'port:added':
+    case 'port:removed': {
+      const node = graph.getNode(change.port.nodeId);
+      if (!node) break;
+      const isInput = change.port.type === 'input';
+      if (adds && isInput) {
+        node.addInput(new Port(change.port));
+      } else if (adds) {
+        node.addOutput(new Port(change.port));
+      } else if (isInput) {
+        node.removeInput(change.port.id);
+      } else {
+        node.removeOutput(change.port.id);
+      }
+      break;
+    }
+    case 'port:changed': {
+      const node = graph.getNode(change.nodeId);
+      const port = node && (node.getInput(change.portId) || node.getOutput(change.portId));
+      const value = forward ? change.value : change.previousValue;
+      if (!port) break;
+      if (change.setting === 'name') {
+        port.setName(value);
+      } else if (change.setting === 'dataType') {
+        port.setDataType(value);
+      } else {
+        port.setMaxConnections(value);
+      }
+      break;
+    }
+    case 'edge:added':
+    case 'edge:removed': {
+      if (adds) {
+        graph.restoreEdge(change.edge);
+      } else {
+        graph.removeEdge(change.edge.id);
+      }
+      break;
+    }
+    case 'node:moved': {
+      const { x, y } = forward ? change.position : change.previousPosition;
+      graph.getNode(change.nodeId)?.restorePosition(x, y);
+      break;
+    }
+    case 'node:renamed':
+      graph.getNode(change.nodeId)?.setName(forward ? change.name : change.previousName);
+      break;
+    case 'node:property:changed': {
+      const node = graph.getNode(change.nodeId);
+      if (!node) break;
+      if (forward ? change.exists : change.existed) {
+        node.setProperty(change.key, forward ? change.value : change.previousValue);
+      } else {
+        node.removeProperty(change.key);
+      }
+      break;
+    }
+    case 'node:subgraph:changed':
+      graph.getNode(change.nodeId)?.setSubgraph(forward ? change.subgraph : change.previousSubgraph);
+      break;
+  }
+}
+
+/**
+ * Apply recorded changes to a graph in order, e.g. to redo a batch
+ */
+export function applyChanges(graph: Graph, changes: GraphChange[]): void {
+  changes.forEach(change => applyChange(graph, change, true));
+}
+
+/**
+ * Undo recorded changes, newest first
+ */
+export function revertChanges(graph: Graph, changes: GraphChange[]): void {
+  [...changes].reverse().forEach(change => applyChange(graph, change, false));
+}
@@ -0,0 +1,200 @@
+import type { Graph } from './Graph';
+import { Port } from './Port';
+
+export type DiagnosticSeverity = 'error' | 'warning' | 'info';
+
+export interface Diagnostic {
+  ruleId: string;
+  severity: DiagnosticSeverity;
+  message: string;
+  nodeIds?: string[];
+  portIds?: string[];
+  edgeIds?: string[];
+}
+
+export type DiagnosticReport = Omit<Diagnostic, 'ruleId' | 'severity'> & { severity?: DiagnosticSeverity };
+
+export interface ValidationRule {
+  id: string;
+  description?: string;
+  severity: DiagnosticSeverity;  // Default severity of reported diagnostics
+  validate(graph: Graph, report: (diagnostic: DiagnosticReport) => void): void;
+}
+
+export const unconnectedInputRule: ValidationRule = {
+  id: 'unconnected-input',
+  description: 'Input ports without an incoming edge or a value',
+  severity: 'warning',
+  validate(graph, report) {
+    const connected = new Set(graph.getEdges().map(edge => edge.getTargetPort().getId()));
+    graph.getNodes().forEach(node => {
+      node.getInputs().forEach(port => {
+        if (!connected.has(port.getId()) && port.getValue() === undefined) {
+          report({
+            message: `Input ${port.getName()} of node ${node.getName()} is not connected`,
+            nodeIds: [node.getId()],
+            portIds: [port.getId()]
+          });
+        }
+      });
+    });
+  }
+};
+
+export const danglingPortRule: ValidationRule = {
+  id: 'dangling-port',
+  description: 'Edges or ports that no longer belong to a node of the graph',
+  severity: 'error',
+  validate(graph, report) {
+    graph.getNodes().forEach(node => {
+      [...node.getInputs(), ...node.getOutputs()].forEach(port => {
+        if (port.getNodeId() !== node.getId()) {
+          report({
+            message: `Port ${port.getId()} is held by node ${node.getId()} but claims node ${port.getNodeId()}`,
+            nodeIds: [node.getId()],
+            portIds: [port.getId()]
+          });
+        }
+      });
+    });
+
+    const isAttached = (port: Port) => {
+      const node = graph.getNode(port.getNodeId());
+      return !!node && (node.getInput(port.getId()) === port || node.getOutput(port.getId()) === port);
+    };
+    graph.getEdges().forEach(edge => {
+      [edge.getSourcePort(), edge.getTargetPort()].forEach(port => {
+        if (!isAttached(port)) {
+          report({
+            message: `Edge ${edge.getId()} is attached to port ${port.getId()} which is no longer part of the graph`,
+            portIds: [port.getId()],
+            edgeIds: [edge.getId()]
+          });
+        }
+      });
+    });
+  }
+};
+
+export const duplicateIdRule: ValidationRule = {
+  id: 'duplicate-id',
+  description: 'Port ids used by more than one port',
+  severity: 'error',
+  validate(graph, report) {
+    const owners = new Map<string, string[]>();
+    graph.getNodes().forEach(node => {
+      [...node.getInputs(), ...node.getOutputs()].forEach(port => {
+        if (!owners.has(port.getId())) {
+          owners.set(port.getId(), []);
+        }
+        owners.get(port.getId())!.push(node.getId());
+      });
+    });
+    owners.forEach((nodeIds, portId) => {
+      if (nodeIds.length > 1) {
+        report({
+          message: `Port id ${portId} is used ${nodeIds.length} times`,
+          nodeIds: Array.from(new Set(nodeIds)),
+          portIds: [portId]
+        });
+      }
+    });
+  }
+};
+
+export const orphanNodeRule: ValidationRule = {
+  id: 'orphan-node',
+  description: 'Nodes without any edge',
+  severity: 'info',
+  validate(graph, report) {
+    const nodes = graph.getNodes();
+    if (nodes.length < 2) return;
+    const connected = new Set<string>();
+    graph.getEdges().forEach(edge => {
+      connected.add(edge.getSourcePort().getNodeId());
+      connected.add(edge.getTargetPort().getNodeId());
+    });
+    nodes.forEach(node => {
+      if (!connected.has(node.getId())) {
+        report({
+          message: `Node ${node.getName()} is not connected to any other node`,
+          nodeIds: [node.getId()]
+        });
+      }
+    });
+  }
+};
+
+export const typeMismatchRule: ValidationRule = {
+  id: 'type-mismatch',
+  description: 'Edges between ports with incompatible data types',
+  severity: 'error',
+  validate(graph, report) {
+    graph.getEdges().forEach(edge => {
+      const sourcePort = edge.getSourcePort();
+      const targetPort = edge.getTargetPort();
+      const check = sourcePort.checkConnection(targetPort, graph.getDataTypes());
+      if (!check.allowed) {
+        report({
+          message: `Edge ${edge.getId()}: ${check.reason}`,
+          nodeIds: [sourcePort.getNodeId(), targetPort.getNodeId()],
+          portIds: [sourcePort.getId(), targetPort.getId()],
+          edgeIds: [edge.getId()]
+        });
+      }
+    });
+  }
+};
+
+export const builtinRules: ValidationRule[] = [
+  unconnectedInputRule,
+  danglingPortRule,
+  duplicateIdRule,
+  orphanNodeRule,
+  typeMismatchRule
+];
+
+export class GraphValidator {
+  private rules: Map<string, ValidationRule> = new Map();
+
+  constructor(rules: ValidationRule[] = builtinRules) {
+    rules.forEach(rule => this.addRule(rule));
+  }
+
+  public addRule(rule: ValidationRule): void {
+    if (this.rules.has(rule.id)) {
+      throw new Error(`Validation rule ${rule.id} is already registered`);
+    }
+    this.rules.set(rule.id, rule);
+  }
+
+  public removeRule(ruleId: string): void {
+    this.rules.delete(ruleId);
+  }
+
+  public getRules(): ValidationRule[] {
+    return Array.from(this.rules.values());
+  }
+
+  /**
+   * Run every rule over the graph.
+   * A rule that throws is reported as an error diagnostic of that rule.
+   */
+  public validate(graph: Graph): Diagnostic[] {
+    const diagnostics: Diagnostic[] = [];
+    this.rules.forEach(rule => {
+      try {
+        rule.validate(graph, ({ severity, ...diagnostic }) => {
+          diagnostics.push({ ruleId: rule.id, severity: severity || rule.severity, ...diagnostic });
+        });
+      } catch (error) {
+        diagnostics.push({
+          ruleId: rule.id,
+          severity: 'error',
+          message: `Rule ${rule.id} failed: ${error instanceof Error ? error.message : String(error)}`
+        });
+      }
+    });
+    return diagnostics;
+  }
+}
@@ -0,0 +1,70 @@
+import { describe, it, expect } from 'vitest';
+import { Graph, GraphData } from '../Graph';
+import { Port } from '../Port';
+
+describe('Graph adjacency indices', () => {
+  const data: GraphData = {
+    id: 'g',
+    name: 'G',
+    nodes: [
+      { id: 'a', name: 'A', type: 'default', x: 0, y: 0, outputs: [{ id: 'a-out', name: 'out', type: 'output' }] },
+      {
+        id: 'b',
+        name: 'B',
+        type: 'default',
+        x: 200,
+        y: 0,
+        inputs: [{ id: 'b-in', name: 'in', type: 'input' }],
+        outputs: [{ id: 'b-out', name: 'out', type: 'output' }]
+      },
+      { id: 'c', name: 'C', type: 'default', x: 400, y: 0, inputs: [{ id: 'c-in', name: 'in', type: 'input' }] }
+    ],
+    edges: [
+      { id: 'e1', sourcePortId: 'a-out', targetPortId: 'b-in' },
+      { id: 'e2', sourcePortId: 'b-out', targetPortId: 'c-in' }
+    ]
+  };
+
+  const ids = (items: Array<{ getId(): string }>) => items.map(item => item.getId());
+
+  it('should look up edges by node and port', () => {
+    const graph = new Graph(data);
+
+    expect(ids(graph.getEdgesOfNode('b'))).toEqual(['e1', 'e2']);
+    expect(ids(graph.getEdgesOfPort('c-in'))).toEqual(['e2']);
+    expect(graph.getEdgesOfPort('missing')).toEqual([]);
+    expect(graph.getNodeOfPort('b-out')).toBe(graph.getNode('b'));
+  });
+
+  it('should follow removed edges and nodes', () => {
+    const graph = new Graph(data);
+
+    graph.removeEdge('e1');
+    expect(ids(graph.getEdgesOfNode('b'))).toEqual(['e2']);
+    expect(graph.getEdgesOfNode('a')).toEqual([]);
+
+    graph.removeNode('c');
+    expect(graph.getEdgesOfNode('b')).toEqual([]);
+    expect(graph.getNodeOfPort('c-in')).toBeUndefined();
+    expect(graph.getPort('c-in')).toBeUndefined();
+  });
+
+  it('should index ports added to a node later', () => {
+    const graph = new Graph(data);
+    const node = graph.getNode('c')!;
+
+    node.addOutput(new Port({ id: 'c-out', name: 'out', type: 'output', nodeId: 'c' }));
+    expect(graph.getPort('c-out')).toBe(node.getOutput('c-out'));
+
+    node.removeOutput('c-out');
+    expect(graph.getNodeOfPort('c-out')).toBeUndefined();
+  });
+
+  it('should rebuild the indices on fromJSON', () => {
+    const graph = new Graph(data);
+    graph.fromJSON({ ...data, edges: [{ id: 'e3', sourcePortId: 'a-out', targetPortId: 'c-in' }] });
+
+    expect(graph.getEdgesOfNode('b')).toEqual([]);
+    expect(ids(graph.getEdgesOfPort('a-out'))).toEqual(['e3']);
+  });
+});
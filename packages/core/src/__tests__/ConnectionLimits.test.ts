@@ -0,0 +1,73 @@
+import { describe, it, expect, vi } from 'vitest';
+import { Graph, GraphOptions } from '../Graph';
+
+describe('Port connection limits', () => {
+  const createGraph = (options: GraphOptions = {}) => new Graph({
+    id: 'g',
+    name: 'G',
+    nodes: [
+      {
+        id: 'a',
+        name: 'A',
+        type: 'default',
+        x: 0,
+        y: 0,
+        outputs: [{ id: 'a-out', name: 'out', type: 'output' }]
+      },
+      {
+        id: 'b',
+        name: 'B',
+        type: 'default',
+        x: 0,
+        y: 100,
+        outputs: [{ id: 'b-out', name: 'out', type: 'output' }]
+      },
+      {
+        id: 'c',
+        name: 'C',
+        type: 'default',
+        x: 200,
+        y: 50,
+        inputs: [{ id: 'c-in', name: 'value', type: 'input', maxConnections: 1 }]
+      }
+    ],
+    edges: [{ id: 'e1', sourcePortId: 'a-out', targetPortId: 'c-in' }]
+  }, options);
+
+  it('should reject edges into a full port by default', () => {
+    const graph = createGraph();
+    const rejected = vi.fn();
+    graph.on('edge:rejected', rejected);
+
+    const edge = graph.addEdge(graph.getPort('b-out')!, graph.getPort('c-in')!);
+
+    expect(edge).toBeUndefined();
+    expect(graph.getEdges().length).toBe(1);
+    expect(rejected).toHaveBeenCalledWith(
+      graph.getPort('b-out'),
+      graph.getPort('c-in'),
+      'Port value accepts at most 1 connection'
+    );
+  });
+
+  it('should replace the existing edge with the replace policy', () => {
+    const graph = createGraph({ connectionPolicy: 'replace' });
+    const removed = vi.fn();
+    graph.on('edge:removed', removed);
+    const [oldEdge] = graph.getEdges();
+
+    const edge = graph.addEdge(graph.getPort('b-out')!, graph.getPort('c-in')!);
+
+    expect(edge).toBeDefined();
+    expect(removed).toHaveBeenCalledWith(oldEdge.getId());
+    expect(graph.getEdges().map(e => e.getSourcePort().getId())).toEqual(['b-out']);
+  });
+
+  it('should refuse duplicate edges between the same ports', () => {
+    const graph = createGraph({ connectionPolicy: 'replace' });
+
+    const check = graph.checkConnection(graph.getPort('a-out')!, graph.getPort('c-in')!);
+
+    expect(check).toEqual({ allowed: false, reason: 'Ports are already connected' });
+  });
+});
@@ -0,0 +1,65 @@
+import { describe, it, expect, vi } from 'vitest';
+import { Graph } from '../Graph';
+import { createDefaultDataTypes } from '../DataTypes';
+
+describe('Port data types', () => {
+  const createGraph = (dataTypes = createDefaultDataTypes()) => new Graph({
+    id: 'g',
+    name: 'G',
+    nodes: [
+      {
+        id: 'source',
+        name: 'Source',
+        type: 'default',
+        x: 0,
+        y: 0,
+        outputs: [
+          { id: 'text', name: 'text', type: 'output', dataType: 'string', value: 'hello' },
+          { id: 'flag', name: 'flag', type: 'output', dataType: 'boolean', value: true }
+        ]
+      },
+      {
+        id: 'target',
+        name: 'Target',
+        type: 'default',
+        x: 200,
+        y: 0,
+        inputs: [{ id: 'amount', name: 'amount', type: 'input', dataType: 'number' }]
+      }
+    ],
+    edges: []
+  }, { dataTypes });
+
+  it('should reject incompatible data types with a reason', () => {
+    const graph = createGraph();
+    const rejected = vi.fn();
+    graph.on('edge:rejected', rejected);
+
+    const source = graph.getPort('text')!;
+    const target = graph.getPort('amount')!;
+
+    expect(graph.checkConnection(source, target)).toEqual({
+      allowed: false,
+      reason: 'Cannot connect string output to number input'
+    });
+    expect(graph.addEdge(source, target)).toBeUndefined();
+    expect(rejected).toHaveBeenCalledWith(source, target, 'Cannot connect string output to number input');
+  });
+
+  it('should coerce values across compatible types', () => {
+    const graph = createGraph();
+    const edge = graph.addEdge(graph.getPort('flag')!, graph.getPort('amount')!)!;
+
+    edge.transfer();
+
+    expect(graph.getPort('amount')!.getValue()).toBe(1);
+  });
+
+  it('should accept user-defined compatibility rules', () => {
+    const dataTypes = createDefaultDataTypes();
+    dataTypes.setCompatible('string', 'number', value => parseFloat(value));
+    const graph = createGraph(dataTypes);
+
+    expect(graph.addEdge(graph.getPort('text')!, graph.getPort('amount')!)).toBeDefined();
+  });
+});
@@ -0,0 +1,186 @@
+import { describe, it, expect, vi } from 'vitest';
+import { Graph, GraphData } from '../Graph';
+import { applyPatch, diffGraphs, isEmptyDiff } from '../Diff';
+
+describe('Graph diff and patch', () => {
+  const base: GraphData = {
+    id: 'g',
+    name: 'G',
+    nodes: [
+      {
+        id: 'a',
+        name: 'A',
+        type: 'default',
+        x: 0,
+        y: 0,
+        outputs: [{ id: 'a-out', name: 'out', type: 'output' }],
+        properties: { color: 'red' }
+      },
+      {
+        id: 'b',
+        name: 'B',
+        type: 'default',
+        x: 200,
+        y: 0,
+        inputs: [{ id: 'b-in', name: 'in', type: 'input' }],
+        outputs: [{ id: 'b-out', name: 'out', type: 'output' }]
+      },
+      {
+        id: 'c',
+        name: 'C',
+        type: 'default',
+        x: 400,
+        y: 0,
+        inputs: [{ id: 'c-in', name: 'in', type: 'input' }]
+      }
+    ],
+    edges: [
+      { id: 'e1', sourcePortId: 'a-out', targetPortId: 'b-in' },
+      { id: 'e2', sourcePortId: 'b-out', targetPortId: 'c-in' }
+    ]
+  };
+
+  const edit = (change: (data: GraphData) => void): GraphData => {
+    const data: GraphData = JSON.parse(JSON.stringify(base));
+    change(data);
+    return data;
+  };
+
+  const target = edit(data => {
+    data.nodes[0].name = 'Source';
+    data.nodes[0].x = 50;
+    data.nodes[0].properties = { color: 'blue' };
+    data.nodes[1].inputs!.push({ id: 'b-in-2', name: 'in 2', type: 'input', dataType: 'number' });
+    data.nodes[1].outputs![0].name = 'result';
+    data.nodes.splice(2, 1);
+    data.nodes.push({ id: 'd', name: 'D', type: 'default', x: 600, y: 0, inputs: [{ id: 'd-in', name: 'in', type: 'input' }] });
+    data.edges[1] = { id: 'e2', sourcePortId: 'b-out', targetPortId: 'd-in' };
+    data.edges.push({ id: 'e3', sourcePortId: 'a-out', targetPortId: 'b-in-2' });
+  });
+
+  it('should report added, removed and modified items with the changed fields', () => {
+    const diff = diffGraphs(base, target);
+
+    expect(diff.nodes.added.map(node => node.id)).toEqual(['d']);
+    expect(diff.nodes.removed.map(node => node.id)).toEqual(['c']);
+    expect(diff.nodes.modified).toEqual([
+      {
+        id: 'a',
+        changes: [
+          { field: 'name', from: 'A', to: 'Source' },
+          { field: 'position', from: { x: 0, y: 0 }, to: { x: 50, y: 0 } },
+          { field: 'properties.color', from: 'red', to: 'blue' }
+        ]
+      },
+      { id: 'b', changes: [{ field: 'ports', from: ['b-in', 'b-out'], to: ['b-in', 'b-in-2', 'b-out'] }] }
+    ]);
+    expect(diff.ports.added).toEqual([{ nodeId: 'b', port: target.nodes[1].inputs![1] }]);
+    expect(diff.ports.modified).toEqual([
+      { nodeId: 'b', portId: 'b-out', changes: [{ field: 'name', from: 'out', to: 'result' }] }
+    ]);
+    expect(diff.edges.added.map(edge => edge.id)).toEqual(['e3']);
+    expect(diff.edges.modified).toEqual([
+      { id: 'e2', changes: [{ field: 'targetPortId', from: 'c-in', to: 'd-in' }], edge: target.edges[1] }
+    ]);
+  });
+
+  it('should find no differences between equal documents', () => {
+    expect(isEmptyDiff(diffGraphs(base, edit(() => {})))).toBe(true);
+  });
+
+  it('should apply a diff to a live graph through its events', () => {
+    const graph = new Graph(base);
+    const events = { added: vi.fn(), removed: vi.fn(), moved: vi.fn(), renamed: vi.fn() };
+    graph.on('node:added', events.added);
+    graph.on('node:removed', events.removed);
+    graph.on('node:moved', events.moved);
+    graph.on('node:renamed', events.renamed);
+
+    const failures = applyPatch(graph, diffGraphs(base, target));
+
+    expect(failures).toEqual([]);
+    expect(events.removed).toHaveBeenCalledWith('c');
+    expect(events.added).toHaveBeenCalledWith(graph.getNode('d'));
+    expect(events.moved).toHaveBeenCalledWith(graph.getNode('a'), 50, 0);
+    expect(events.renamed).toHaveBeenCalledWith(graph.getNode('a'), 'Source', 'A');
+    expect(isEmptyDiff(diffGraphs(graph.toJSON(), target))).toBe(true);
+  });
+
+  it('should return the changes the graph refuses', () => {
+    const graph = new Graph(base);
+    graph.removeNode('c');
+
+    const failures = applyPatch(graph, diffGraphs(base, target));
+
+    expect(failures).toEqual([
+      { kind: 'edge', id: 'e2', reason: 'Edge e2 not found' },
+      { kind: 'node', id: 'c', reason: 'Node c not found' }
+    ]);
+    expect(graph.getEdge('e2')!.getTargetPort().getId()).toBe('d-in');
+  });
+
+  it('should report the changes that hooks cancel', () => {
+    const graph = new Graph(base);
+    graph.on('node:removing', hook => hook.cancel('Node C is locked'));
+    graph.on('node:adding', hook => hook.cancel('Nodes are locked'));
+    graph.on('node:moving', (_node, _x, _y, move) => move.cancel('Nodes are locked'));
+
+    const failures = applyPatch(graph, diffGraphs(base, target));
+
+    expect(failures).toEqual(expect.arrayContaining([
+      { kind: 'node', id: 'c', reason: 'Removal of node c was rejected' },
+      { kind: 'node', id: 'd', reason: 'Node d was rejected' },
+      { kind: 'node', id: 'a', reason: 'Move of node a was rejected' }
+    ]));
+    expect(graph.getNode('c')).toBeDefined();
+    expect(graph.getNode('a')!.getPosition()).toEqual({ x: 0, y: 0 });
+  });
+
+  it('should keep a node whose type change is refused', () => {
+    const graph = new Graph(base);
+    graph.on('node:removing', hook => hook.cancel('Node B is locked'));
+
+    const failures = applyPatch(graph, diffGraphs(base, edit(data => {
+      data.nodes[1].type = 'custom';
+      data.nodes[1].name = 'Renamed';
+    })));
+
+    expect(failures).toEqual([{ kind: 'node', id: 'b', reason: 'Removal of node b was rejected' }]);
+    expect(graph.getNode('b')!.getType()).toBe('default');
+    expect(graph.getNode('b')!.getName()).toBe('Renamed');
+    expect(graph.getEdges().map(edge => edge.getId())).toEqual(['e1', 'e2']);
+  });
+
+  it('should remove properties missing from the target', () => {
+    const graph = new Graph(base);
+
+    applyPatch(graph, diffGraphs(base, edit(data => {
+      delete data.nodes[0].properties;
+    })));
+
+    expect('color' in graph.getNode('a')!.getProperties()).toBe(false);
+    expect(isEmptyDiff(diffGraphs(graph.toJSON(), edit(data => {
+      delete data.nodes[0].properties;
+    })))).toBe(true);
+  });
+
+  it('should change ports through their setters and report the edges they lose', () => {
+    const graph = new Graph(base);
+    const changed = vi.fn();
+    graph.on('port:changed', changed);
+
+    const failures = applyPatch(graph, diffGraphs(base, edit(data => {
+      data.nodes[0].outputs![0].dataType = 'string';
+      data.nodes[1].inputs![0].dataType = 'number';
+      data.nodes[2].inputs![0].type = 'output';
+    })));
+
+    expect(failures).toEqual([
+      { kind: 'edge', id: 'e1', reason: 'Edge e1 was removed: Cannot connect string output to number input' },
+      { kind: 'edge', id: 'e2', reason: 'Edge e2 was removed: Cannot connect two output ports' }
+    ]);
+    expect(changed).toHaveBeenCalledWith(graph.getPort('b-in'), 'dataType', 'number', 'any');
+    expect(graph.getPort('c-in')!.getType()).toBe('output');
+    expect(graph.getEdges()).toEqual([]);
+  });
+});
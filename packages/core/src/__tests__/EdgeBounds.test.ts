@@ -0,0 +1,63 @@
+import { describe, it, expect, vi } from 'vitest';
+import { Graph, GraphData } from '../Graph';
+import { getBezierBounds, getBezierPoint, getEdgeCurve } from '../Geometry';
+
+describe('Edge bounds', () => {
+  const data: GraphData = {
+    id: 'g',
+    name: 'G',
+    nodes: [
+      { id: 'a', name: 'A', type: 'default', x: 0, y: 0, outputs: [{ id: 'a-out', name: 'out', type: 'output' }] },
+      { id: 'b', name: 'B', type: 'default', x: 300, y: 100, inputs: [{ id: 'b-in', name: 'in', type: 'input' }] }
+    ],
+    edges: [{ id: 'e1', sourcePortId: 'a-out', targetPortId: 'b-in' }]
+  };
+
+  const ids = (items: Array<{ getId(): string }>) => items.map(item => item.getId());
+
+  it('should cover the whole curve, not only its end points', () => {
+    const curve = { start: { x: 0, y: 0 }, control1: { x: 100, y: -80 }, control2: { x: 0, y: 80 }, end: { x: 100, y: 0 } };
+    const bounds = getBezierBounds(curve);
+
+    expect(bounds.y).toBeLessThan(0);
+    expect(bounds.y + bounds.height).toBeGreaterThan(0);
+    for (let t = 0; t <= 1; t += 0.05) {
+      const point = getBezierPoint(curve, t);
+      expect(point.y).toBeGreaterThanOrEqual(bounds.y - 1e-9);
+      expect(point.y).toBeLessThanOrEqual(bounds.y + bounds.height + 1e-9);
+    }
+  });
+
+  it('should match the curve of the edge', () => {
+    const graph = new Graph(data);
+    const edge = graph.getEdge('e1')!;
+
+    // Anchors from the default layout: the output 16 from the right side, the input 16 from the left
+    expect(edge.getCurve()).toEqual(getEdgeCurve({ x: 204, y: 68 }, { x: 316, y: 168 }));
+    expect(edge.getBounds()).toEqual({ x: 204, y: 68, width: 112, height: 100 });
+  });
+
+  it('should follow an end node when it moves', () => {
+    const graph = new Graph(data);
+
+    graph.getNode('b')!.setPosition(300, 2000);
+
+    expect(graph.getEdge('e1')!.getBounds()).toEqual({ x: 204, y: 68, width: 112, height: 2000 });
+    expect(ids(graph.getEdgesInBounds({ x: 300, y: 2060, width: 20, height: 20 }))).toEqual(['e1']);
+    expect(graph.getEdgesInBounds({ x: 0, y: -600, width: 500, height: 500 })).toEqual([]);
+  });
+
+  it('should update the node index when a node is resized', () => {
+    const graph = new Graph(data);
+    const resized = vi.fn();
+    graph.on('node:resized', resized);
+    const node = graph.getNode('a')!;
+
+    node.setSize(400, 60);
+    node.setSize(400, 60);
+
+    expect(resized).toHaveBeenCalledTimes(1);
+    expect(resized).toHaveBeenCalledWith(node, 400, 60);
+    expect(ids(graph.getNodesInBounds({ x: 300, y: 10, width: 10, height: 10 }))).toEqual(['a']);
+  });
+});
@@ -0,0 +1,137 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { Graph } from '../Graph';
+import { Executor } from '../Executor';
+import { Node } from '../Node';
+
+describe('Executor', () => {
+  let graph: Graph;
+
+  beforeEach(() => {
+    graph = new Graph({
+      id: 'test-graph',
+      name: 'Test Graph',
+      nodes: [
+        {
+          id: 'a',
+          name: 'A',
+          type: 'constant',
+          x: 0,
+          y: 0,
+          outputs: [{ id: 'a-out', name: 'value', type: 'output', value: 2 }]
+        },
+        {
+          id: 'b',
+          name: 'B',
+          type: 'constant',
+          x: 0,
+          y: 100,
+          outputs: [{ id: 'b-out', name: 'value', type: 'output', value: 3 }]
+        },
+        {
+          id: 'add',
+          name: 'Add',
+          type: 'add',
+          x: 200,
+          y: 50,
+          inputs: [
+            { id: 'add-a', name: 'a', type: 'input' },
+            { id: 'add-b', name: 'b', type: 'input' }
+          ],
+          outputs: [{ id: 'add-out', name: 'sum', type: 'output' }]
+        },
+        {
+          id: 'double',
+          name: 'Double',
+          type: 'double',
+          x: 400,
+          y: 50,
+          inputs: [{ id: 'double-in', name: 'value', type: 'input' }],
+          outputs: [{ id: 'double-out', name: 'value', type: 'output' }]
+        }
+      ],
+      edges: [
+        { id: 'e1', sourcePortId: 'a-out', targetPortId: 'add-a' },
+        { id: 'e2', sourcePortId: 'b-out', targetPortId: 'add-b' },
+        { id: 'e3', sourcePortId: 'add-out', targetPortId: 'double-in' }
+      ]
+    });
+  });
+
+  it('should run nodes in dependency order and transfer values across edges', () => {
+    const executor = new Executor(graph, {
+      computes: {
+        add: ({ a, b }) => ({ sum: a + b }),
+        double: ({ value }) => ({ value: value * 2 })
+      }
+    });
+
+    const result = executor.run();
+
+    expect(result.success).toBe(true);
+    expect(result.order.indexOf('add')).toBeGreaterThan(result.order.indexOf('a'));
+    expect(result.order.indexOf('double')).toBeGreaterThan(result.order.indexOf('add'));
+    expect(result.results.get('add')!.outputs).toEqual({ sum: 5 });
+    expect(result.results.get('double')!.outputs).toEqual({ value: 10 });
+    expect(graph.getPort('double-in')!.getValue()).toBe(5);
+  });
+
+  it('should report errors and skip downstream nodes', () => {
+    const executor = new Executor(graph);
+    executor.registerCompute('add', () => {
+      throw new Error('boom');
+    });
+    executor.registerCompute('double', ({ value }) => ({ value: value * 2 }));
+
+    const result = executor.run();
+
+    expect(result.success).toBe(false);
+    expect(result.errors.get('add')!.message).toBe('boom');
+    expect(result.results.get('double')!.status).toBe('skipped');
+    expect(result.results.get('a')!.status).toBe('success');
+  });
+
+  it('should run the acyclic part of a graph and report the cycle separately', () => {
+    graph.addNode(new Node({
+      id: 'loop',
+      name: 'Loop',
+      type: 'double',
+      x: 600,
+      y: 50,
+      inputs: [{ id: 'loop-in', name: 'value', type: 'input' }],
+      outputs: [{ id: 'loop-out', name: 'value', type: 'output' }]
+    }));
+    graph.addEdge(graph.getPort('double-out')!, graph.getPort('loop-in')!);
+    graph.addEdge(graph.getPort('loop-out')!, graph.getPort('loop-in')!);
+    const executor = new Executor(graph, { computes: { add: ({ a, b }) => ({ sum: a + b }) } });
+
+    const result = executor.run();
+
+    expect(result.success).toBe(false);
+    expect(result.cyclic).toEqual(['loop']);
+    expect(result.order).not.toContain('loop');
+    expect(result.results.get('add')!.outputs).toEqual({ sum: 5 });
+    expect(result.results.get('loop')!.status).toBe('error');
+  });
+
+  it('should run a long chain', () => {
+    const chain = new Graph({
+      id: 'chain',
+      name: 'Chain',
+      nodes: Array.from({ length: 12000 }, (_, i) => ({
+        id: `n${i}`,
+        name: `N${i}`,
+        type: 'inc',
+        x: 0,
+        y: 0,
+        inputs: [{ id: `n${i}-in`, name: 'value', type: 'input' as const }],
+        outputs: [{ id: `n${i}-out`, name: 'value', type: 'output' as const }]
+      })),
+      edges: Array.from({ length: 11999 }, (_, i) => ({ id: `e${i}`, sourcePortId: `n${i}-out`, targetPortId: `n${i + 1}-in` }))
+    });
+
+    const result = new Executor(chain, { computes: { inc: ({ value }) => ({ value: (value || 0) + 1 }) } }).run();
+
+    expect(result.success).toBe(true);
+    expect(result.results.get('n11999')!.outputs).toEqual({ value: 12000 });
+  });
+});
@@ -0,0 +1,143 @@
+import { describe, it, expect } from 'vitest';
+import { Graph, GraphData } from '../Graph';
+import { FormatRegistry, exportMermaid, importDot } from '../formats';
+
+describe('Graph formats', () => {
+  const data: GraphData = {
+    id: 'g',
+    name: 'Adder',
+    nodes: [
+      {
+        id: 'a',
+        name: 'Number',
+        type: 'constant',
+        x: 0,
+        y: 10,
+        outputs: [{ id: 'a-out', name: 'value', type: 'output' }]
+      },
+      {
+        id: 'b',
+        name: 'Add {x|y}',
+        type: 'add',
+        x: 200,
+        y: 10,
+        inputs: [
+          { id: 'b-x', name: 'x', type: 'input' },
+          { id: 'b-y', name: 'y', type: 'input', dataType: 'number' }
+        ],
+        outputs: [{ id: 'b-sum', name: 'sum', type: 'output' }],
+        properties: { precision: 2 }
+      }
+    ],
+    edges: [{ id: 'e1', sourcePortId: 'a-out', targetPortId: 'b-x' }]
+  };
+
+  it('should export DOT with ports as record fields', () => {
+    const { text, issues } = new Graph(data).exportAs('dot');
+
+    expect(text).toContain('"b" [label="{{<b-x> x|<b-y> y}|Add \\{x\\|y\\}|{<b-sum> sum}}", type="add", pos="200,10"];');
+    expect(text).toContain('"a":"a-out" -> "b":"b-x" [id="e1"];');
+    expect(issues).toEqual([
+      { path: 'nodes[1].properties', message: 'Node properties cannot be written to DOT' },
+      { path: 'nodes[1].inputs[1].dataType', message: 'Port dataType cannot be written to DOT' }
+    ]);
+  });
+
+  it('should read exported DOT back into the same structure', () => {
+    const graph = Graph.importFrom('dot', new Graph(data).exportAs('dot').text);
+    const restored = graph.toJSON();
+
+    expect(restored.id).toBe('g');
+    expect(restored.name).toBe('Adder');
+    expect(restored.nodes.map(node => [node.id, node.name, node.type, node.x, node.y])).toEqual([
+      ['a', 'Number', 'constant', 0, 10],
+      ['b', 'Add {x|y}', 'add', 200, 10]
+    ]);
+    expect(restored.nodes[1].inputs!.map(port => port.id)).toEqual(['b-x', 'b-y']);
+    expect(restored.nodes[1].outputs!.map(port => port.id)).toEqual(['b-sum']);
+    expect(restored.edges).toEqual([{ id: 'e1', sourcePortId: 'a-out', targetPortId: 'b-x' }]);
+  });
+
+  it('should keep backslashes and line breaks through DOT', () => {
+    const escaped: GraphData = {
+      id: 'g\\',
+      name: 'Line 1\nLine 2',
+      nodes: [
+        { id: 'a\\', name: 'C:\\temp\\', type: 'constant', x: 0, y: 0, outputs: [{ id: 'a\\out', name: 'out\\', type: 'output' }] },
+        { id: 'b\nc', name: 'Two\nlines', type: 'sink', x: 200, y: 0, inputs: [{ id: 'b-in\n', name: 'in', type: 'input' }] }
+      ],
+      edges: [{ id: 'e\\1', sourcePortId: 'a\\out', targetPortId: 'b-in\n' }]
+    };
+
+    const restored = Graph.importFrom('dot', new Graph(escaped).exportAs('dot').text).toJSON();
+
+    expect(restored.id).toBe(escaped.id);
+    expect(restored.name).toBe(escaped.name);
+    expect(restored.nodes.map(node => [node.id, node.name])).toEqual([['a\\', 'C:\\temp\\'], ['b\nc', 'Two\nlines']]);
+    expect(restored.nodes[0].outputs![0]).toMatchObject({ id: 'a\\out', name: 'out\\' });
+    expect(restored.edges).toEqual(escaped.edges);
+  });
+
+  it('should build ports from the edges of a hand-written DOT file', () => {
+    const issues: string[] = [];
+    const imported = importDot(`
+      digraph pipeline {
+        node [color=blue];
+        load -> parse:text;
+        parse -> { lint check };
+      }
+    `, issue => issues.push(`${issue.path}: ${issue.message}`));
+
+    expect(imported.nodes.map(node => node.id)).toEqual(['load', 'parse', 'lint', 'check']);
+    expect(imported.nodes[1].inputs).toEqual([{ id: 'text', name: 'text', type: 'input' }]);
+    expect(imported.nodes[1].outputs).toEqual([{ id: 'parse-out', name: 'out', type: 'output' }]);
+    expect(imported.edges.map(edge => `${edge.sourcePortId}->${edge.targetPortId}`)).toEqual([
+      'load-out->text',
+      'parse-out->lint-in',
+      'parse-out->check-in'
+    ]);
+    expect(issues).toContain('nodes: 1 DOT subgraph(s) flattened into the graph');
+    expect(issues).toContain('nodes[0]: Ignored DOT attributes: color');
+    expect(new Graph(imported).getEdges().length).toBe(3);
+  });
+
+  it('should report DOT syntax errors with their location', () => {
+    expect(() => importDot('digraph { a -> }')).toThrow("Expected an identifier in DOT input near '}'");
+  });
+
+  it('should export a Mermaid flowchart with port names on edges', () => {
+    const text = exportMermaid({
+      ...data,
+      nodes: [...data.nodes, { id: 'end', name: 'Say "hi"\nto C:\\', type: 'sink', x: 0, y: 0 }]
+    });
+
+    expect(text.split('\n')).toEqual([
+      'flowchart LR',
+      '  a["Number"]',
+      '  b["Add {x|y}"]',
+      '  end_2["Say #quot;hi#quot;<br>to C:#92;"]',
+      '  a -->|"value → x"| b',
+      ''
+    ]);
+  });
+
+  it('should give every Mermaid node a distinct id', () => {
+    const node = (id: string) => ({ id, name: id, type: 'default', x: 0, y: 0 });
+    const text = exportMermaid({ id: 'g', name: 'G', nodes: [node('end_1'), node('end'), node('a b'), node('a_b')], edges: [] });
+
+    expect(text.split('\n').slice(1, 5)).toEqual([
+      '  end_1["end_1"]',
+      '  end_2["end"]',
+      '  a_b["a b"]',
+      '  a_b_3["a_b"]'
+    ]);
+  });
+
+  it('should only use registered adapters', () => {
+    const formats = new FormatRegistry();
+    const graph = new Graph(data, { formats });
+
+    expect(() => graph.exportAs('dot')).toThrow('Format dot does not support export');
+    expect(() => formats.import('mermaid', '')).toThrow('Format mermaid does not support import');
+  });
+});
@@ -0,0 +1,55 @@
+import { describe, it, expect } from 'vitest';
+import { Graph, GraphOptions } from '../Graph';
+import { NodeData } from '../Node';
+
+describe('Graph cycles and ordering', () => {
+  const createNode = (id: string): NodeData => ({
+    id,
+    name: id.toUpperCase(),
+    type: 'default',
+    x: 0,
+    y: 0,
+    inputs: [{ id: `${id}-in`, name: 'in', type: 'input' }],
+    outputs: [{ id: `${id}-out`, name: 'out', type: 'output' }]
+  });
+
+  const createGraph = (options: GraphOptions = {}) => new Graph({
+    id: 'g',
+    name: 'G',
+    nodes: ['a', 'b', 'c', 'd'].map(createNode),
+    edges: [
+      { id: 'e1', sourcePortId: 'c-out', targetPortId: 'd-in' },
+      { id: 'e2', sourcePortId: 'a-out', targetPortId: 'b-in' },
+      { id: 'e3', sourcePortId: 'b-out', targetPortId: 'c-in' }
+    ]
+  }, options);
+
+  it('should return a stable topological order', () => {
+    const graph = createGraph();
+    expect(graph.topologicalSort().map(node => node.getId())).toEqual(['a', 'b', 'c', 'd']);
+    expect(graph.findCycles()).toEqual([]);
+  });
+
+  it('should find cycles and refuse to sort them', () => {
+    const graph = createGraph();
+    graph.addEdge(graph.getPort('c-out')!, graph.getPort('a-in')!);
+
+    expect(graph.findCycles()).toEqual([['a', 'b', 'c']]);
+    expect(() => graph.topologicalSort()).toThrow('Graph contains a cycle: a -> b -> c');
+  });
+
+  it('should refuse edges closing a loop when cycles are not allowed', () => {
+    const graph = createGraph({ allowCycles: false });
+    const source = graph.getPort('d-out')!;
+    const target = graph.getPort('b-in')!;
+
+    const check = graph.checkConnection(source, target);
+    expect(check.allowed).toBe(false);
+    expect(check.cycle).toEqual(['d', 'b', 'c']);
+    expect(check.reason).toBe('Connection would create a cycle: D -> B -> C -> D');
+    expect(graph.addEdge(source, target)).toBeUndefined();
+
+    const selfLoop = graph.checkConnection(graph.getPort('a-out')!, graph.getPort('a-in')!);
+    expect(selfLoop.cycle).toEqual(['a']);
+  });
+});
@@ -0,0 +1,147 @@
+import { describe, it, expect } from 'vitest';
+import { Graph, GraphData } from '../Graph';
+import { GraphDataError, validateGraphData } from '../GraphDataValidator';
+
+describe('GraphData validation', () => {
+  const createData = (): GraphData => ({
+    id: 'g',
+    name: 'G',
+    nodes: [
+      {
+        id: 'a',
+        name: 'A',
+        type: 'default',
+        x: 0,
+        y: 0,
+        outputs: [{ id: 'a-out', name: 'out', type: 'output' }]
+      },
+      {
+        id: 'b',
+        name: 'B',
+        type: 'default',
+        x: 200,
+        y: 0,
+        inputs: [{ id: 'b-in', name: 'in', type: 'input' }]
+      }
+    ],
+    edges: [{ id: 'e1', sourcePortId: 'a-out', targetPortId: 'b-in' }]
+  });
+
+  // Malformed documents are built untyped, as they arrive from outside
+  const withSubgraph = (subgraph: unknown): unknown => {
+    const data = createData();
+    return { ...data, nodes: [{ ...data.nodes[0], subgraph }, ...data.nodes.slice(1)] };
+  };
+
+  it('should accept valid data', () => {
+    const result = validateGraphData(createData());
+
+    expect(result.valid).toBe(true);
+    expect(result.issues).toEqual([]);
+  });
+
+  it('should report every problem with its JSON path', () => {
+    const data: any = createData();
+    data.nodes.push({ id: 'a', name: 'Copy', type: 'default', x: 0, y: 0 });
+    data.nodes[1].x = 'left';
+    data.nodes[1].inputs.push({ id: 'a-out', name: 'dup', type: 'input' });
+    data.edges.push({ id: 'e2', sourcePortId: 'a-out', targetPortId: 'missing' });
+    data.edges.push({ id: 'e3', sourcePortId: 'b-in', targetPortId: 'a-out' });
+
+    const { issues } = validateGraphData(data);
+
+    expect(issues).toEqual([
+      { path: 'nodes[1].x', message: 'Node x must be a finite number' },
+      { path: 'nodes[1].inputs[1].id', message: 'Duplicate port id a-out' },
+      { path: 'nodes[2].id', message: 'Duplicate node id a' },
+      { path: 'edges[1].targetPortId', message: 'References missing port missing' },
+      { path: 'edges[2].sourcePortId', message: 'Port b-in must be an output port' },
+      { path: 'edges[2].targetPortId', message: 'Port a-out must be an input port' }
+    ]);
+  });
+
+  it('should prefix paths inside nested subgraphs', () => {
+    const { issues } = validateGraphData(withSubgraph({ id: 'inner', name: 'Inner', nodes: [], edges: [{ id: 'x' }] }));
+
+    expect(issues.map(issue => issue.path)).toEqual([
+      'nodes[0].subgraph.edges[0].sourcePortId',
+      'nodes[0].subgraph.edges[0].targetPortId'
+    ]);
+  });
+
+  it('should fail fast with a GraphDataError when loading', () => {
+    const data = createData();
+    data.edges[0].targetPortId = 'missing';
+
+    expect(() => Graph.fromJSON(data)).toThrow(GraphDataError);
+    expect(() => Graph.fromJSON(data)).toThrow('edges[0].targetPortId: References missing port missing');
+  });
+
+  it('should report edges refused by the connection rules', () => {
+    const data = createData();
+    data.nodes[1].inputs![0].dataType = 'number';
+    data.nodes[0].outputs![0].dataType = 'string';
+
+    try {
+      Graph.fromJSON(data);
+      expect.unreachable();
+    } catch (error) {
+      expect((error as GraphDataError).issues).toEqual([
+        { path: 'edges[0]', message: 'Cannot connect string output to number input' }
+      ]);
+    }
+  });
+
+  it('should report items refused by hooks at their index in the document', () => {
+    const data: any = createData();
+    data.nodes.unshift({ id: 'c', name: 'C', type: 'default', x: 0, y: 0, outputs: 'none' });
+    const graph = new Graph({ id: 'g', name: 'G', nodes: [], edges: [] }, { loadMode: 'best-effort' });
+    graph.on('node:adding', hook => {
+      if (hook.data.id === 'b') hook.cancel('Node B is locked');
+    });
+
+    graph.fromJSON(data);
+
+    expect(graph.getLoadWarnings()).toContainEqual({ path: 'nodes[2]', message: 'Node b was rejected' });
+  });
+
+  it('should fail a strict load when a hook refuses an edge', () => {
+    const graph = new Graph({ id: 'g', name: 'G', nodes: [], edges: [] });
+    graph.on('edge:adding', hook => hook.cancel('Edges are locked'));
+
+    try {
+      graph.fromJSON(createData());
+      expect.unreachable();
+    } catch (error) {
+      expect((error as GraphDataError).issues).toEqual([{ path: 'edges[0]', message: 'Edge e1 was rejected' }]);
+    }
+  });
+
+  it('should not let loaded edges replace each other', () => {
+    const data = createData();
+    data.nodes[0].outputs!.push({ id: 'a-out2', name: 'out2', type: 'output' });
+    data.nodes[1].inputs![0].maxConnections = 1;
+    data.edges.push({ id: 'e2', sourcePortId: 'a-out2', targetPortId: 'b-in' });
+
+    try {
+      Graph.fromJSON(data, { connectionPolicy: 'replace' });
+      expect.unreachable();
+    } catch (error) {
+      expect((error as GraphDataError).issues).toEqual([
+        { path: 'edges[1]', message: 'Connection would replace edge e1' }
+      ]);
+    }
+  });
+
+  it('should skip bad items and keep warnings in best-effort mode', () => {
+    const data: any = createData();
+    data.nodes.push({ id: 'c', name: 'C', type: 'default', x: 0, y: 0, inputs: 'none' });
+    data.edges.push({ id: 'e2', sourcePortId: 'a-out', targetPortId: 'missing' });
+
+    const graph = Graph.fromJSON(data, { loadMode: 'best-effort' });
+
+    expect(graph.getNodes().map(node => node.getId())).toEqual(['a', 'b', 'c']);
+    expect(graph.getEdges().map(edge => edge.getId())).toEqual(['e1']);
+    expect(graph.getLoadWarnings().map(issue => issue.path)).toEqual(['nodes[2].inputs', 'edges[1].targetPortId']);
+  });
+});
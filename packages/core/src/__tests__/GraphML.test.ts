@@ -0,0 +1,100 @@
+import { describe, it, expect } from 'vitest';
+import { Graph, GraphData } from '../Graph';
+import { exportGraphML, importGraphML, parseXml } from '../formats';
+
+describe('GraphML format', () => {
+  const data: GraphData = {
+    id: 'g',
+    name: 'Pipeline <main>',
+    nodes: [
+      {
+        id: 'a',
+        name: 'Source',
+        type: 'constant',
+        x: 0,
+        y: 10,
+        outputs: [{ id: 'a-out', name: 'value', type: 'output', dataType: 'number', value: 4 }],
+        properties: { unit: 'ms', limits: [1, 2] }
+      },
+      {
+        id: 'b',
+        name: 'Group',
+        type: 'subgraph',
+        x: 200,
+        y: 10,
+        inputs: [{ id: 'b-in-1', name: 'in', type: 'input', maxConnections: 1 }],
+        properties: {},
+        subgraph: {
+          id: 'inner',
+          name: 'Inner',
+          nodes: [{ id: 'i', name: 'Inner', type: 'default', x: 5, y: 5, properties: {} }],
+          edges: []
+        }
+      }
+    ],
+    edges: [{ id: 'e1', sourcePortId: 'a-out', targetPortId: 'b-in-1' }]
+  };
+
+  it('should round trip positions, ports, types and nested graphs', () => {
+    const issues: unknown[] = [];
+    const text = exportGraphML(data, issue => issues.push(issue));
+    const restored = importGraphML(text, issue => issues.push(issue));
+
+    expect(issues).toEqual([]);
+    expect(restored.name).toBe('Pipeline <main>');
+    expect(restored.nodes[0]).toEqual({ ...data.nodes[0], inputs: [] });
+    expect(restored.nodes[1].inputs).toEqual(data.nodes[1].inputs);
+    expect(restored.nodes[1].subgraph!.nodes).toEqual([{ ...data.nodes[1].subgraph!.nodes[0], inputs: [], outputs: [] }]);
+    expect(restored.edges).toEqual(data.edges);
+  });
+
+  it('should load through the format registry', () => {
+    const text = new Graph(data).exportAs('graphml').text;
+    const graph = Graph.importFrom('graphml', text);
+
+    expect(graph.getEdges().map(edge => edge.getId())).toEqual(['e1']);
+    expect(graph.getPort('a-out')!.getValue()).toBe(4);
+    expect(graph.getLoadWarnings()).toEqual([]);
+  });
+
+  it('should report values JSON cannot hold', () => {
+    const issues: string[] = [];
+    const text = exportGraphML({
+      ...data,
+      nodes: [{ ...data.nodes[0], properties: { unit: 'ms', created: new Date(0), scale: Infinity } }],
+      edges: []
+    }, issue => issues.push(issue.path));
+
+    expect(issues).toEqual(['nodes[0].properties.created', 'nodes[0].properties.scale']);
+    expect(importGraphML(text).nodes[0].properties).toEqual({ unit: 'ms' });
+  });
+
+  it('should read yEd graphics and report data it does not use', () => {
+    const issues: string[] = [];
+    const imported = importGraphML(`<?xml version="1.0"?>
+      <graphml xmlns="http://graphml.graphdrawing.org/xmlns" xmlns:y="http://www.yworks.com/xml/graphml">
+        <key id="d0" for="node" yfiles.type="nodegraphics"/>
+        <key id="d1" for="edge" attr.name="weight" attr.type="double"/>
+        <graph id="G" edgedefault="directed">
+          <node id="n0">
+            <data key="d0"><y:ShapeNode><y:Geometry x="10" y="20" width="30" height="30"/><y:NodeLabel>Start &amp; go</y:NodeLabel></y:ShapeNode></data>
+          </node>
+          <node id="n1"/>
+          <edge source="n0" target="n1"><data key="d1">2.5</data></edge>
+          <edge source="n0" target="missing"/>
+        </graph>
+      </graphml>`, issue => issues.push(`${issue.path}: ${issue.message}`));
+
+    expect(imported.nodes[0]).toMatchObject({ id: 'n0', name: 'Start & go', x: 10, y: 20 });
+    expect(imported.nodes[1]).toMatchObject({ id: 'n1', name: 'n1', x: 200, y: 0 });
+    expect(imported.edges).toEqual([{ id: 'edge-n0-out-n1-in', sourcePortId: 'n0-out', targetPortId: 'n1-in' }]);
+    expect(issues).toEqual([
+      'edges[0]: Ignored GraphML data keys: d1',
+      'edges[1]: Edge references a missing node and was skipped'
+    ]);
+  });
+
+  it('should reject malformed XML with the line number', () => {
+    expect(() => parseXml('<graphml>\n<graph>\n</graphml>')).toThrow('Unexpected closing tag </graphml> at line 3 of XML input');
+  });
+});
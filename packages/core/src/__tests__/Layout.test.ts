@@ -0,0 +1,54 @@
+import { describe, it, expect } from 'vitest';
+import { Graph } from '../Graph';
+import { LayoutModel } from '../Layout';
+import { Node } from '../Node';
+import { Port } from '../Port';
+
+describe('LayoutModel', () => {
+  const node = (inputs: number, outputs: number) => new Node({
+    id: 'n',
+    name: 'N',
+    type: 'default',
+    x: 100,
+    y: 50,
+    inputs: Array.from({ length: inputs }, (_, i) => ({ id: `in-${i}`, name: `in${i}`, type: 'input' as const })),
+    outputs: Array.from({ length: outputs }, (_, i) => ({ id: `out-${i}`, name: `out${i}`, type: 'output' as const }))
+  });
+
+  it('should grow the body with the larger port column and center each side', () => {
+    const layout = new LayoutModel().measure(node(3, 1));
+
+    expect(layout.width).toBe(220);
+    expect(layout.height).toBe(32 + 3 * 40 + 32);
+    expect(layout.title).toEqual({ x: 0, y: 0, width: 220, height: 32 });
+    expect(layout.body).toEqual({ x: 0, y: 32, width: 220, height: 152 });
+    expect(layout.ports.get('in-0')).toEqual({ x: 16, y: 68 });
+    expect(layout.ports.get('in-2')).toEqual({ x: 16, y: 148 });
+    expect(layout.ports.get('out-0')).toEqual({ x: 204, y: 108 });
+  });
+
+  it('should follow the style config and a fixed size', () => {
+    const layout = new LayoutModel({ nodeWidth: 100, titleHeight: 20, portInset: 0 });
+
+    expect(layout.measure(node(0, 0)).height).toBe(20 + 68);
+    const fixed = layout.measure(node(1, 1), { width: 160, height: 120 });
+    expect(fixed.body).toEqual({ x: 0, y: 20, width: 160, height: 100 });
+    expect(fixed.ports.get('out-0')).toEqual({ x: 160, y: 70 });
+  });
+
+  it('should give the graph the same geometry as the layout', () => {
+    const layout = new LayoutModel({ portSpacing: 30 });
+    const graph = new Graph({ id: 'g', name: 'G', nodes: [node(1, 1).toJSON()], edges: [] }, { layout });
+    const added = graph.getNode('n')!;
+
+    expect(added.getBounds()).toEqual({ x: 100, y: 50, width: 220, height: 100 });
+    expect(graph.getPort('in-0')!.getPosition(added)).toEqual({ x: 116, y: 50 + 32 + 34 });
+
+    // A third row of ports makes the node taller and moves the existing anchors
+    added.addInput(new Port({ id: 'in-1', name: 'in1', type: 'input', nodeId: 'n' }));
+    added.addInput(new Port({ id: 'in-2', name: 'in2', type: 'input', nodeId: 'n' }));
+    expect(added.getBounds().height).toBe(32 + 3 * 30 + 32);
+    expect(graph.getPortAt(116, 50 + 32 + 31)!.getId()).toBe('in-0');
+    expect(graph.getNodesInBounds({ x: 110, y: 180, width: 5, height: 5 })).toEqual([added]);
+  });
+});
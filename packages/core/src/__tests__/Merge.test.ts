@@ -0,0 +1,159 @@
+import { describe, it, expect } from 'vitest';
+import { Graph, GraphData } from '../Graph';
+import { getUnresolvedConflicts, mergeGraphs } from '../Merge';
+
+describe('Three-way graph merge', () => {
+  const base: GraphData = {
+    id: 'g',
+    name: 'G',
+    nodes: [
+      {
+        id: 'a',
+        name: 'A',
+        type: 'default',
+        x: 0,
+        y: 0,
+        outputs: [{ id: 'a-out', name: 'out', type: 'output' }],
+        properties: { color: 'red' }
+      },
+      {
+        id: 'b',
+        name: 'B',
+        type: 'default',
+        x: 200,
+        y: 0,
+        inputs: [{ id: 'b-in', name: 'in', type: 'input' }, { id: 'b-extra', name: 'extra', type: 'input' }]
+      },
+      { id: 'c', name: 'C', type: 'default', x: 400, y: 0, properties: {} }
+    ],
+    edges: [{ id: 'e1', sourcePortId: 'a-out', targetPortId: 'b-in' }]
+  };
+
+  const edit = (change: (data: GraphData) => void): GraphData => {
+    const data: GraphData = JSON.parse(JSON.stringify(base));
+    change(data);
+    return data;
+  };
+
+  it('should combine changes that do not overlap', () => {
+    const ours = edit(data => {
+      data.nodes[0].x = 50;
+      data.nodes[0].properties!.size = 2;
+    });
+    const theirs = edit(data => {
+      data.nodes[0].name = 'Source';
+      data.nodes.push({ id: 'd', name: 'D', type: 'default', x: 600, y: 0 });
+    });
+
+    const { data, conflicts } = mergeGraphs(base, ours, theirs);
+
+    expect(conflicts).toEqual([]);
+    expect(data.nodes[0]).toMatchObject({ name: 'Source', x: 50, properties: { color: 'red', size: 2 } });
+    expect(data.nodes.map(node => node.id)).toEqual(['a', 'b', 'c', 'd']);
+  });
+
+  it('should report a node deleted on one side and moved on the other', () => {
+    const ours = edit(data => {
+      data.nodes.splice(2, 1);
+    });
+    const theirs = edit(data => {
+      data.nodes[2].x = 450;
+    });
+
+    const result = mergeGraphs(base, ours, theirs);
+
+    expect(result.conflicts).toHaveLength(1);
+    const [conflict] = result.conflicts;
+    expect(conflict).toMatchObject({ type: 'delete-modify', kind: 'node', id: 'c', resolution: 'ours', resolved: false });
+    expect(result.data.nodes.map(node => node.id)).toEqual(['a', 'b']);
+
+    conflict.useTheirs();
+
+    expect(result.data.nodes.find(node => node.id === 'c')!.x).toBe(450);
+    expect(getUnresolvedConflicts(result)).toEqual([]);
+  });
+
+  it('should report fields changed differently on both sides', () => {
+    const ours = edit(data => {
+      data.nodes[0].properties!.color = 'blue';
+    });
+    const theirs = edit(data => {
+      data.nodes[0].properties!.color = 'green';
+    });
+
+    const result = mergeGraphs(base, ours, theirs);
+
+    expect(result.conflicts.map(({ type, id, field, base, ours, theirs }) => ({ type, id, field, base, ours, theirs }))).toEqual([
+      { type: 'modify-modify', id: 'a', field: 'properties.color', base: 'red', ours: 'blue', theirs: 'green' }
+    ]);
+    expect(result.data.nodes[0].properties!.color).toBe('blue');
+    result.conflicts[0].useTheirs();
+    expect(result.data.nodes[0].properties!.color).toBe('green');
+    result.conflicts[0].useOurs();
+    expect(result.data.nodes[0].properties!.color).toBe('blue');
+  });
+
+  it('should report an edge added to a port removed on the other side', () => {
+    const ours = edit(data => {
+      data.edges.push({ id: 'e2', sourcePortId: 'a-out', targetPortId: 'b-extra' });
+    });
+    const theirs = edit(data => {
+      data.nodes[1].inputs!.splice(1, 1);
+    });
+
+    const result = mergeGraphs(base, ours, theirs);
+
+    expect(result.conflicts).toHaveLength(1);
+    expect(result.conflicts[0]).toMatchObject({
+      type: 'dangling-edge',
+      id: 'e2',
+      message: 'Edge e2 uses port b-extra removed in theirs'
+    });
+    // Our side keeps the edge and restores the port
+    expect(new Graph(result.data).getEdges().map(edge => edge.getId())).toEqual(['e1', 'e2']);
+
+    result.conflicts[0].useTheirs();
+
+    expect(result.data.edges.map(edge => edge.id)).toEqual(['e1']);
+    expect(result.data.nodes[1].inputs!.map(port => port.id)).toEqual(['b-in']);
+    expect(new Graph(result.data).getEdges().length).toBe(1);
+  });
+
+  it('should take the edges of a node along when resolving its conflict', () => {
+    const ours = edit(data => {
+      data.nodes[1].x = 250;
+      data.edges.push({ id: 'e2', sourcePortId: 'a-out', targetPortId: 'b-extra' });
+    });
+    const theirs = edit(data => {
+      data.nodes.splice(1, 1);
+      data.edges = [];
+    });
+
+    const result = mergeGraphs(base, ours, theirs);
+
+    expect(result.conflicts.map(({ type, id }) => ({ type, id }))).toEqual([{ type: 'modify-delete', id: 'b' }]);
+    expect(new Graph(result.data).getEdges().map(edge => edge.getId())).toEqual(['e2']);
+
+    result.conflicts[0].useTheirs();
+    expect(result.data.edges).toEqual([]);
+    expect(new Graph(result.data).getNode('b')).toBeUndefined();
+
+    result.conflicts[0].useOurs();
+    expect(result.data.edges.map(edge => edge.id)).toEqual(['e2']);
+    expect(new Graph(result.data).getEdges().map(edge => edge.getId())).toEqual(['e2']);
+  });
+
+  it('should leave the input documents untouched', () => {
+    const ours = edit(data => {
+      data.nodes[1].name = 'Ours';
+    });
+    const theirs = edit(data => {
+      data.nodes[1].name = 'Theirs';
+    });
+    const snapshot = JSON.stringify([ours, theirs]);
+
+    mergeGraphs(base, ours, theirs).conflicts.forEach(conflict => conflict.useTheirs());
+
+    expect(JSON.stringify([ours, theirs])).toBe(snapshot);
+  });
+});
@@ -0,0 +1,87 @@
+import { describe, it, expect, vi } from 'vitest';
+import { Graph, GraphData } from '../Graph';
+import { CURRENT_FORMAT_VERSION, MigrationRegistry, createDefaultMigrations } from '../Migrations';
+
+describe('GraphData migrations', () => {
+  const legacyData: GraphData = {
+    id: 'legacy',
+    name: 'Legacy',
+    nodes: [
+      {
+        id: 'n1',
+        name: 'Node 1',
+        type: 'default',
+        x: 0,
+        y: 0,
+        outputs: [{ id: 'n1-out', name: 'out', type: 'output' }],
+        subgraph: {
+          id: 'inner',
+          name: 'Inner',
+          nodes: [{ id: 'i1', name: 'Inner 1', type: 'default', x: 0, y: 0 }],
+          edges: []
+        }
+      }
+    ],
+    edges: []
+  };
+
+  it('should upgrade documents without a version, including nested subgraphs', () => {
+    const migrated = createDefaultMigrations().migrate(legacyData);
+
+    expect(migrated.formatVersion).toBe(CURRENT_FORMAT_VERSION);
+    expect(migrated.nodes[0].outputs![0].dataType).toBe('any');
+    expect(migrated.nodes[0].properties).toEqual({});
+    expect(migrated.nodes[0].subgraph!.formatVersion).toBe(CURRENT_FORMAT_VERSION);
+    expect(migrated.nodes[0].subgraph!.nodes[0].properties).toEqual({});
+    expect(legacyData.formatVersion).toBeUndefined();
+  });
+
+  it('should run registered migrations step by step when loading', () => {
+    const migrations = new MigrationRegistry(3);
+    const steps: number[] = [];
+    migrations.register(1, data => {
+      steps.push(1);
+      return data;
+    });
+    migrations.register(2, data => {
+      steps.push(2);
+      return { ...data, name: `${data.name} (v3)` };
+    });
+
+    const graph = Graph.fromJSON(legacyData, { migrations });
+
+    expect(steps).toEqual([1, 2, 1, 2]);
+    expect(graph.getName()).toBe('Legacy (v3)');
+    expect(graph.toJSON().formatVersion).toBe(3);
+  });
+
+  it('should refuse documents from newer versions in strict mode', () => {
+    const future: GraphData = { ...legacyData, formatVersion: CURRENT_FORMAT_VERSION + 1 };
+
+    expect(() => new Graph(future, { strictVersion: true })).toThrow(
+      `Graph format version ${CURRENT_FORMAT_VERSION + 1} is newer than the supported version ${CURRENT_FORMAT_VERSION}`
+    );
+  });
+
+  it('should load documents from newer versions with a warning and keep their version', () => {
+    const future: GraphData = { ...legacyData, formatVersion: CURRENT_FORMAT_VERSION + 1 };
+    const warn = vi.spyOn(console, 'warn');
+
+    const graph = new Graph(future);
+
+    expect(graph.getLoadWarnings()).toEqual([{
+      path: 'formatVersion',
+      message: `Graph format version ${CURRENT_FORMAT_VERSION + 1} is newer than the supported version ${CURRENT_FORMAT_VERSION}, loaded as is`
+    }]);
+    expect(graph.toJSON().formatVersion).toBe(CURRENT_FORMAT_VERSION + 1);
+    expect(warn).not.toHaveBeenCalled();
+    warn.mockRestore();
+  });
+
+  it('should fail when a migration step is missing', () => {
+    const migrations = new MigrationRegistry(3);
+    migrations.register(1, data => data);
+
+    expect(() => migrations.migrate(legacyData)).toThrow('No migration registered from graph format version 2');
+  });
+});
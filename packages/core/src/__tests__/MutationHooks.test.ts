@@ -0,0 +1,91 @@
+import { describe, it, expect, vi } from 'vitest';
+import { Graph, GraphData } from '../Graph';
+import { Node } from '../Node';
+
+describe('Mutation hooks', () => {
+  const data: GraphData = {
+    id: 'g',
+    name: 'G',
+    nodes: [
+      { id: 'a', name: 'A', type: 'default', x: 0, y: 0, outputs: [{ id: 'a-out', name: 'out', type: 'output' }] },
+      { id: 'b', name: 'B', type: 'default', x: 200, y: 0, inputs: [{ id: 'b-in', name: 'in', type: 'input' }] }
+    ],
+    edges: []
+  };
+
+  it('should let a hook veto a removal', () => {
+    const graph = new Graph(data);
+    const rejected = vi.fn();
+    graph.on('node:rejected', rejected);
+    graph.on('node:removing', hook => {
+      if (hook.data.getId() === 'a') hook.cancel('Node A is locked');
+    });
+
+    expect(graph.removeNode('a')).toBe(false);
+    expect(graph.removeNode('b')).toBe(true);
+
+    expect(graph.getNodes().map(node => node.getId())).toEqual(['a']);
+    expect(rejected).toHaveBeenCalledWith('remove', 'a', 'Node A is locked');
+  });
+
+  it('should add nodes with the data rewritten by a hook', () => {
+    const graph = new Graph(data);
+    graph.on('node:adding', hook => {
+      hook.data = { ...hook.data, id: `app-${hook.data.id}`, name: hook.data.name.toUpperCase() };
+    });
+
+    const node = graph.addNode(new Node({ id: 'c', name: 'c', type: 'default', x: 0, y: 0 }));
+
+    expect(node!.getId()).toBe('app-c');
+    expect(graph.getNode('app-c')!.getName()).toBe('C');
+  });
+
+  it('should rename and refuse edges', () => {
+    const graph = new Graph(data);
+    const rejected = vi.fn();
+    graph.on('edge:rejected', rejected);
+    graph.on('edge:adding', hook => {
+      hook.data.id = hook.data.id.replace(/^edge-/, 'link-');
+    });
+
+    const edge = graph.addEdge(graph.getPort('a-out')!, graph.getPort('b-in')!);
+    expect(edge!.getId()).toBe('link-a-out-b-in');
+
+    graph.on('edge:adding', hook => hook.cancel('Read only'));
+    graph.removeEdge('link-a-out-b-in');
+
+    expect(graph.addEdge(graph.getPort('a-out')!, graph.getPort('b-in')!)).toBeUndefined();
+    expect(rejected).toHaveBeenCalledWith(graph.getPort('a-out'), graph.getPort('b-in'), 'Read only');
+  });
+
+  it('should snap or refuse moves', () => {
+    const graph = new Graph(data);
+    const node = graph.getNode('a')!;
+    const moved = vi.fn();
+    graph.on('node:moved', moved);
+    graph.on('node:moving', (_node, _x, _y, move) => {
+      if (move.data.x < 0) {
+        move.cancel('Outside the canvas');
+      } else {
+        move.data.x = Math.round(move.data.x / 10) * 10;
+      }
+    });
+
+    expect(node.setPosition(-5, 0)).toBe(false);
+    expect(node.setPosition(37, 12)).toBe(true);
+
+    expect(node.getPosition()).toEqual({ x: 40, y: 12 });
+    expect(moved).toHaveBeenCalledTimes(1);
+    expect(moved).toHaveBeenCalledWith(node, 40, 12);
+  });
+
+  it('should leave the graph unchanged when a hook refuses part of a group', () => {
+    const graph = new Graph(data);
+    graph.on('node:removing', hook => {
+      if (hook.data.getId() === 'b') hook.cancel();
+    });
+
+    expect(() => graph.groupNodes(['a', 'b'])).toThrow('Cannot group nodes: removal of node b was rejected');
+    expect(graph.getNodes().map(node => node.getId())).toEqual(['a', 'b']);
+  });
+});
@@ -0,0 +1,81 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { Graph } from '../Graph';
+import { NodeRegistry } from '../NodeRegistry';
+import { Executor } from '../Executor';
+
+describe('NodeRegistry', () => {
+  let registry: NodeRegistry;
+
+  beforeEach(() => {
+    registry = new NodeRegistry();
+    registry.register({
+      type: 'math.constant',
+      name: 'Constant',
+      category: 'math',
+      outputs: [{ key: 'value', name: 'value', value: 1 }]
+    });
+    registry.register({
+      type: 'math.add',
+      name: 'Add',
+      category: 'math',
+      inputs: [
+        { key: 'a', name: 'a' },
+        { key: 'b', name: 'b' }
+      ],
+      outputs: [{ key: 'sum', name: 'sum' }],
+      width: 160,
+      height: 80,
+      compute: ({ a, b }) => ({ sum: a + b })
+    });
+  });
+
+  it('should create nodes by type name with default ports and size', () => {
+    const graph = new Graph({ id: 'g', name: 'G', nodes: [], edges: [] }, { registry });
+    const node = graph.addNodeOfType('math.add', { x: 10, y: 20 });
+
+    expect(node.getId()).toBe('math.add-1');
+    expect(node.getName()).toBe('Add');
+    expect(node.getInputs().map(port => port.getId())).toEqual(['math.add-1-a', 'math.add-1-b']);
+    expect(node.getBounds().width).toBe(160);
+    expect(registry.getCategories()).toEqual(['math']);
+  });
+
+  it('should reject unknown types and rebuild ports on load', () => {
+    expect(() => new Graph({
+      id: 'g',
+      name: 'G',
+      nodes: [{ id: 'n1', name: 'N', type: 'unknown', x: 0, y: 0 }],
+      edges: []
+    }, { registry })).toThrow('Unknown node type: unknown');
+
+    const graph = Graph.fromJSON({
+      id: 'g',
+      name: 'G',
+      nodes: [{
+        id: 'c1',
+        name: 'C',
+        type: 'math.constant',
+        x: 0,
+        y: 0,
+        outputs: [{ id: 'c1-value', name: 'renamed', type: 'output', value: 7 }]
+      }],
+      edges: []
+    }, { registry });
+
+    const port = graph.getPort('c1-value')!;
+    expect(port.getName()).toBe('value');
+    expect(port.getValue()).toBe(7);
+  });
+
+  it('should use the registered compute function when executing', () => {
+    const graph = new Graph({ id: 'g', name: 'G', nodes: [], edges: [] }, { registry });
+    const a = graph.addNodeOfType('math.constant', { id: 'a' });
+    const add = graph.addNodeOfType('math.add', { id: 'add' });
+    graph.addEdge(a.getOutput('a-value')!, add.getInput('add-a')!);
+    graph.addEdge(a.getOutput('a-value')!, add.getInput('add-b')!);
+
+    const result = new Executor(graph).run();
+
+    expect(result.results.get('add')!.outputs).toEqual({ sum: 2 });
+  });
+});
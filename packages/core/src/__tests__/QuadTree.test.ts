@@ -0,0 +1,155 @@
+import { describe, it, expect } from 'vitest';
+import { Bounds, QuadTree, QuadTreeItem } from '../QuadTree';
+import { Graph } from '../Graph';
+import { Node } from '../Node';
+import { Port } from '../Port';
+
+describe('QuadTree', () => {
+  const item = (id: string, x: number, y: number, size = 10): QuadTreeItem => ({
+    id,
+    bounds: { x, y, width: size, height: size }
+  });
+
+  const overlaps = (a: Bounds, b: Bounds) =>
+    a.x <= b.x + b.width && a.x + a.width >= b.x && a.y <= b.y + b.height && a.y + a.height >= b.y;
+
+  // Deterministic pseudo random numbers so failures can be reproduced
+  const random = (() => {
+    let seed = 42;
+    return () => {
+      seed = (seed * 16807) % 2147483647;
+      return seed / 2147483647;
+    };
+  })();
+
+  it('should find items at any coordinate', () => {
+    const tree = new QuadTree();
+    tree.insert(item('near', 5, 5));
+    tree.insert(item('far', 1e7, -3e6));
+    tree.insert(item('negative', -250000, 40));
+
+    expect(tree.query({ x: 1e7 - 5, y: -3e6 - 5, width: 20, height: 20 }).map(found => found.id)).toEqual(['far']);
+    expect(tree.query({ x: -250010, y: 0, width: 100, height: 100 }).map(found => found.id)).toEqual(['negative']);
+    expect(tree.size()).toBe(3);
+  });
+
+  it('should match a brute force search', () => {
+    const tree = new QuadTree();
+    const items: QuadTreeItem[] = [];
+    for (let i = 0; i < 500; i++) {
+      const spread = i % 2 === 0 ? 2000 : 2e6;
+      items.push(item(`item-${i}`, (random() - 0.5) * spread, (random() - 0.5) * spread, 1 + random() * 200));
+    }
+    items.forEach(entry => tree.insert(entry));
+    // Remove a third of them again so merged cells are searched too
+    const removed = new Set(items.filter((_, i) => i % 3 === 0).map(entry => entry.id));
+    removed.forEach(id => tree.remove(id));
+
+    for (let i = 0; i < 50; i++) {
+      const area = { x: (random() - 0.5) * 2e6, y: (random() - 0.5) * 2e6, width: random() * 5e5, height: random() * 5e5 };
+      const expected = items.filter(entry => !removed.has(entry.id) && overlaps(entry.bounds, area)).map(entry => entry.id);
+      expect(tree.query(area).map(found => found.id).sort()).toEqual(expected.sort());
+    }
+  });
+
+  it('should shrink back once far items are removed', () => {
+    const tree = new QuadTree({ initialSize: 1024 });
+    tree.insert(item('a', 10, 10));
+    tree.insert(item('b', 90000, 90000));
+    expect(tree.getBounds()!.width).toBeGreaterThan(90000);
+
+    tree.remove('b');
+    expect(tree.getBounds()).toEqual({ x: 0, y: 0, width: 1024, height: 1024 });
+
+    tree.remove('a');
+    expect(tree.getBounds()).toBeUndefined();
+    expect(tree.query({ x: 0, y: 0, width: 100, height: 100 })).toEqual([]);
+  });
+
+  it('should replace an item inserted again with the same id', () => {
+    const tree = new QuadTree();
+    tree.insert(item('a', 0, 0));
+    tree.insert(item('a', 5000, 5000));
+
+    expect(tree.size()).toBe(1);
+    expect(tree.query({ x: 0, y: 0, width: 20, height: 20 })).toEqual([]);
+    expect(tree.query({ x: 5000, y: 5000, width: 20, height: 20 }).map(found => found.id)).toEqual(['a']);
+  });
+
+  it('should return the k nearest items like a brute force search', () => {
+    const tree = new QuadTree();
+    const items: QuadTreeItem[] = [];
+    for (let i = 0; i < 400; i++) {
+      items.push(item(`item-${i}`, (random() - 0.5) * 20000, (random() - 0.5) * 20000, 1 + random() * 50));
+    }
+    items.forEach(entry => tree.insert(entry));
+
+    const distance = ({ bounds }: QuadTreeItem, x: number, y: number) =>
+      Math.hypot(Math.max(bounds.x - x, 0, x - bounds.x - bounds.width), Math.max(bounds.y - y, 0, y - bounds.y - bounds.height));
+    for (let i = 0; i < 30; i++) {
+      const x = (random() - 0.5) * 25000;
+      const y = (random() - 0.5) * 25000;
+      const expected = items
+        .map(entry => ({ id: entry.id, distance: distance(entry, x, y) }))
+        .sort((a, b) => a.distance - b.distance);
+
+      expect(tree.nearest(x, y, { k: 5 }).map(found => found.item.id)).toEqual(expected.slice(0, 5).map(entry => entry.id));
+      expect(tree.nearest(x, y, { k: 50, maxDistance: 1000 }).map(found => found.item.id))
+        .toEqual(expected.filter(entry => entry.distance <= 1000).slice(0, 50).map(entry => entry.id));
+    }
+  });
+
+  it('should hit-test points and skip filtered items while searching', () => {
+    const tree = new QuadTree();
+    tree.insert(item('a', 0, 0, 100));
+    tree.insert(item('b', 50, 50, 100));
+    tree.insert(item('c', 400, 0, 10));
+
+    expect(tree.queryPoint(75, 75).map(found => found.id).sort()).toEqual(['a', 'b']);
+    expect(tree.queryPoint(300, 300)).toEqual([]);
+    expect(tree.nearest(390, 5, { filter: candidate => candidate.id !== 'c' })[0].item.id).toBe('b');
+    expect(tree.nearest(390, 5, { maxDistance: 5 })).toEqual([]);
+  });
+
+  it('should find nodes and ports at a point in a graph', () => {
+    const graph = new Graph({
+      id: 'g',
+      name: 'G',
+      nodes: [
+        { id: 'a', name: 'A', type: 'default', x: 0, y: 0, outputs: [{ id: 'a-out', name: 'out', type: 'output' }] },
+        { id: 'b', name: 'B', type: 'default', x: 150, y: 0, inputs: [{ id: 'b-in', name: 'in', type: 'input' }] },
+        { id: 'c', name: 'C', type: 'default', x: 1000, y: 0, inputs: [{ id: 'c-in', name: 'in', type: 'input' }] }
+      ],
+      edges: []
+    });
+
+    // a and b overlap; the node whose center is closer wins
+    expect(graph.getNodeAt(160, 50)!.getId()).toBe('a');
+    expect(graph.getNodeAt(210, 50)!.getId()).toBe('b');
+    expect(graph.getNodeAt(600, 50)).toBeUndefined();
+    expect(graph.getNearestNodes(900, 50, 2).map(node => node.getId())).toEqual(['c', 'b']);
+
+    expect(graph.getPortAt(200, 70)!.getId()).toBe('a-out');
+    expect(graph.getPortAt(100, 100)).toBeUndefined();
+    const inputs = graph.getNearestPorts(0, 0, 2, { filter: port => port.getType() === 'input' });
+    expect(inputs.map(port => port.getId())).toEqual(['b-in', 'c-in']);
+
+    // Ports follow their node and are dropped with it
+    graph.getNode('c')!.setPosition(0, 500);
+    expect(graph.getPortAt(16, 568)!.getId()).toBe('c-in');
+    graph.getNode('a')!.addInput(new Port({ id: 'a-in', name: 'in', type: 'input', nodeId: 'a' }));
+    expect(graph.getPortAt(16, 68)!.getId()).toBe('a-in');
+    graph.removeNode('c');
+    expect(graph.getPortAt(16, 568)).toBeUndefined();
+  });
+
+  it('should keep far away nodes queryable in a graph', () => {
+    const graph = new Graph({ id: 'g', name: 'G', nodes: [], edges: [] });
+    graph.addNode(new Node({ id: 'far', name: 'Far', type: 'default', x: 50000, y: -80000 }));
+
+    expect(graph.getNodesInBounds({ x: 49900, y: -80100, width: 200, height: 200 }).map(node => node.getId())).toEqual(['far']);
+
+    graph.getNode('far')!.setPosition(-1e6, 0);
+    expect(graph.getNodesInBounds({ x: -1e6 - 100, y: -100, width: 200, height: 200 }).map(node => node.getId())).toEqual(['far']);
+  });
+});
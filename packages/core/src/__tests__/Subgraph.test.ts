@@ -0,0 +1,118 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { Graph } from '../Graph';
+import { Node, NodeData } from '../Node';
+import { Executor } from '../Executor';
+import { SUBGRAPH_INPUT_TYPE, SUBGRAPH_OUTPUT_TYPE } from '../Subgraph';
+
+describe('Subgraphs', () => {
+  let graph: Graph;
+
+  const createNode = (id: string, type: string, x: number): NodeData => ({
+    id,
+    name: id,
+    type,
+    x,
+    y: 0,
+    inputs: [{ id: `${id}-in`, name: 'value', type: 'input' }],
+    outputs: [{ id: `${id}-out`, name: 'value', type: 'output' }]
+  });
+
+  beforeEach(() => {
+    graph = new Graph({
+      id: 'g',
+      name: 'G',
+      nodes: [
+        { ...createNode('source', 'constant', 0), inputs: [] },
+        createNode('inc', 'increment', 200),
+        createNode('double', 'double', 400),
+        createNode('sink', 'sink', 600)
+      ],
+      edges: [
+        { id: 'e1', sourcePortId: 'source-out', targetPortId: 'inc-in' },
+        { id: 'e2', sourcePortId: 'inc-out', targetPortId: 'double-in' },
+        { id: 'e3', sourcePortId: 'double-out', targetPortId: 'sink-in' }
+      ]
+    });
+    graph.getPort('source-out')!.setValue(4);
+  });
+
+  it('should group nodes into a composite node with boundary ports', () => {
+    const composite = graph.groupNodes(['inc', 'double'], { id: 'group', name: 'Group' })!;
+
+    expect(graph.getNodes().map(node => node.getId())).toEqual(['source', 'sink', 'group']);
+    expect(composite.getInputs().map(port => port.getId())).toEqual(['group-in-1']);
+    expect(composite.getOutputs().map(port => port.getId())).toEqual(['group-out-1']);
+    expect(graph.getEdges().map(edge => [edge.getSourcePort().getId(), edge.getTargetPort().getId()])).toEqual([
+      ['source-out', 'group-in-1'],
+      ['group-out-1', 'sink-in']
+    ]);
+
+    const subgraph = graph.toJSON().nodes.find(node => node.id === 'group')!.subgraph!;
+    expect(subgraph.nodes.map(node => node.type)).toEqual(['increment', 'double', SUBGRAPH_INPUT_TYPE, SUBGRAPH_OUTPUT_TYPE]);
+    expect(subgraph.edges.length).toBe(3);
+  });
+
+  it('should ungroup a composite node back into the original structure', () => {
+    graph.groupNodes(['inc', 'double'], { id: 'group' });
+    const restored = graph.ungroupNode('group');
+
+    expect(restored.map(node => node.getId())).toEqual(['inc', 'double']);
+    expect(graph.getNode('group')).toBeUndefined();
+    expect(graph.getEdges().map(edge => [edge.getSourcePort().getId(), edge.getTargetPort().getId()])).toEqual([
+      ['inc-out', 'double-in'],
+      ['source-out', 'inc-in'],
+      ['double-out', 'sink-in']
+    ]);
+  });
+
+  it('should refuse to ungroup over a node that took an inner node id', () => {
+    graph.groupNodes(['inc', 'double'], { id: 'group' });
+    graph.addNode(new Node({ id: 'inc', name: 'Other', type: 'constant', x: 0, y: 200 }));
+    const before = graph.toJSON();
+
+    expect(() => graph.ungroupNode('group')).toThrow('Cannot ungroup node group: node inc already exists');
+    expect(graph.toJSON()).toEqual(before);
+    expect(graph.getNode('inc')!.getName()).toBe('Other');
+  });
+
+  it('should write changes made inside a subgraph back to the composite node', () => {
+    graph.groupNodes(['inc', 'double'], { id: 'group' });
+    const inner = graph.enterSubgraph('group')!;
+
+    inner.getNode('inc')!.setPosition(250, 50);
+
+    const data = graph.getNode('group')!.getSubgraph()!;
+    expect(data.nodes.find(node => node.id === 'inc')).toMatchObject({ x: 250, y: 50 });
+    expect(graph.enterSubgraph('group')).toBe(inner);
+  });
+
+  it('should let go of the inner graph when the body is replaced from outside', () => {
+    graph.groupNodes(['inc', 'double'], { id: 'group' });
+    const composite = graph.getNode('group')!;
+    const inner = graph.enterSubgraph('group')!;
+    const body = composite.getSubgraph()!;
+
+    composite.setSubgraph({ ...body, nodes: body.nodes.filter(node => node.id !== 'double'), edges: [] });
+    inner.getNode('inc')!.setPosition(250, 50);
+
+    const fresh = graph.enterSubgraph('group')!;
+    expect(fresh).not.toBe(inner);
+    expect(fresh.getNode('double')).toBeUndefined();
+    expect(composite.getSubgraph()!.nodes.find(node => node.id === 'inc')!.x).not.toBe(250);
+  });
+
+  it('should execute composite nodes through their inner graph', () => {
+    graph.groupNodes(['inc', 'double'], { id: 'group' });
+    const executor = new Executor(graph, {
+      computes: {
+        increment: ({ value }) => ({ value: value + 1 }),
+        double: ({ value }) => ({ value: value * 2 })
+      }
+    });
+
+    const result = executor.run();
+
+    expect(result.success).toBe(true);
+    expect(graph.getPort('sink-in')!.getValue()).toBe(10);
+  });
+});
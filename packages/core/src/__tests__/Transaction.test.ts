@@ -0,0 +1,137 @@
+import { describe, it, expect, vi } from 'vitest';
+import { Graph, GraphData } from '../Graph';
+import { Node } from '../Node';
+import { revertChanges, applyChanges } from '../Transaction';
+
+describe('Graph transactions', () => {
+  const data: GraphData = {
+    id: 'g',
+    name: 'G',
+    nodes: [
+      { id: 'a', name: 'A', type: 'default', x: 0, y: 0, outputs: [{ id: 'a-out', name: 'out', type: 'output' }] },
+      { id: 'b', name: 'B', type: 'default', x: 200, y: 0, inputs: [{ id: 'b-in', name: 'in', type: 'input' }] }
+    ],
+    edges: [{ id: 'e1', sourcePortId: 'a-out', targetPortId: 'b-in' }]
+  };
+
+  const node = (id: string) => new Node({ id, name: id, type: 'default', x: 0, y: 0 });
+
+  it('should emit one batch event instead of one event per item', () => {
+    const graph = new Graph(data);
+    const added = vi.fn();
+    const batch = vi.fn();
+    graph.on('node:added', added);
+    graph.on('batch', batch);
+
+    graph.addNodes([node('c'), node('d'), node('e')]);
+
+    expect(added).not.toHaveBeenCalled();
+    expect(batch).toHaveBeenCalledTimes(1);
+    expect(batch.mock.calls[0][0].map((change: any) => `${change.type} ${change.node.id}`)).toEqual([
+      'node:added c',
+      'node:added d',
+      'node:added e'
+    ]);
+  });
+
+  it('should clear edges and nodes in a single batch', () => {
+    const graph = new Graph(data);
+    const batch = vi.fn();
+    graph.on('batch', batch);
+
+    graph.clear();
+
+    expect(batch).toHaveBeenCalledTimes(1);
+    expect(batch.mock.calls[0][0].map((change: any) => change.type)).toEqual([
+      'edge:removed',
+      'node:removed',
+      'node:removed'
+    ]);
+  });
+
+  it('should collect nested transactions into the outermost batch', () => {
+    const graph = new Graph(data);
+    const batch = vi.fn();
+    graph.on('batch', batch);
+
+    graph.transaction(() => {
+      graph.removeNodes(['b']);
+      graph.getNode('a')!.setPosition(10, 10);
+      graph.getNode('a')!.setPosition(20, 30);
+    });
+
+    expect(batch).toHaveBeenCalledTimes(1);
+    const changes = batch.mock.calls[0][0];
+    expect(changes.map((change: any) => change.type)).toEqual(['edge:removed', 'node:removed', 'node:moved']);
+    expect(changes[2]).toEqual({ type: 'node:moved', nodeId: 'a', position: { x: 20, y: 30 }, previousPosition: { x: 0, y: 0 } });
+  });
+
+  it('should roll back every change when the callback throws', () => {
+    const graph = new Graph(data);
+    const before = graph.toJSON();
+    const batch = vi.fn();
+    graph.on('batch', batch);
+
+    expect(() => graph.transaction(() => {
+      graph.removeNode('a');
+      graph.getNode('b')!.setProperty('color', 'red');
+      graph.addNode(node('c'));
+      throw new Error('Paste failed');
+    })).toThrow('Paste failed');
+
+    expect(batch).not.toHaveBeenCalled();
+    expect(graph.toJSON()).toStrictEqual(before);
+    expect(graph.getEdge('e1')!.getSourcePort()).toBe(graph.getPort('a-out'));
+  });
+
+  it('should roll back around the mutation hooks', () => {
+    const graph = new Graph(data);
+    const before = graph.toJSON();
+    graph.on('node:adding', hook => {
+      hook.data = { ...hook.data, id: `app-${hook.data.id}` };
+    });
+    graph.on('node:removing', hook => {
+      if (hook.data.getId() === 'app-c') hook.cancel('Node C is locked');
+    });
+    graph.on('edge:adding', hook => hook.cancel('Edges are locked'));
+    graph.on('node:moving', (_node, _x, _y, move) => move.cancel('Nodes are locked'));
+
+    expect(() => graph.transaction(() => {
+      graph.removeNode('a');
+      graph.addNode(node('c'));
+      throw new Error('Paste failed');
+    })).toThrow('Paste failed');
+
+    expect(graph.toJSON()).toEqual(before);
+    expect(graph.getNode('app-a')).toBeUndefined();
+  });
+
+  it('should keep the old document when fromJSON is given an invalid one', () => {
+    const graph = new Graph(data);
+    const before = graph.toJSON();
+
+    expect(() => graph.fromJSON({ ...data, id: 'other', edges: [{ id: 'e2', sourcePortId: 'a-out', targetPortId: 'missing' }] }))
+      .toThrow('Invalid graph data');
+
+    expect(graph.toJSON()).toEqual(before);
+  });
+
+  it('should revert and reapply a recorded batch', () => {
+    const graph = new Graph(data);
+    const before = graph.toJSON();
+    let changes: any[] = [];
+    graph.on('batch', batch => { changes = batch; });
+    graph.transaction(() => {
+      graph.getNode('a')!.setName('Source');
+      graph.removeEdges(['e1']);
+      graph.getNode('b')!.removeInput('b-in');
+    });
+    const after = graph.toJSON();
+
+    revertChanges(graph, changes);
+    expect(graph.toJSON()).toEqual(before);
+
+    applyChanges(graph, changes);
+    expect(graph.toJSON()).toEqual(after);
+  });
+});
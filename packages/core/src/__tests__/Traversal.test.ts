@@ -0,0 +1,91 @@
+import { describe, it, expect } from 'vitest';
+import { Graph, GraphData } from '../Graph';
+import { NodeData } from '../Node';
+
+describe('Graph traversal', () => {
+  const node = (id: string, type = 'default'): NodeData => ({
+    id,
+    name: id.toUpperCase(),
+    type,
+    x: 0,
+    y: 0,
+    inputs: [{ id: `${id}-in`, name: 'in', type: 'input' }, { id: `${id}-ctl`, name: 'control', type: 'input' }],
+    outputs: [{ id: `${id}-out`, name: 'out', type: 'output' }]
+  });
+  const edge = (source: string, target: string, port = 'in') => ({
+    id: `${source}-${target}`,
+    sourcePortId: `${source}-out`,
+    targetPortId: `${target}-${port}`
+  });
+
+  // a -> b -> d -> e, a -> c -> d, c -> e (control)
+  const data: GraphData = {
+    id: 'g',
+    name: 'G',
+    nodes: [node('a'), node('b', 'math'), node('c'), node('d', 'math'), node('e')],
+    edges: [edge('a', 'b'), edge('a', 'c'), edge('b', 'd'), edge('c', 'd'), edge('d', 'e'), edge('c', 'e', 'ctl')]
+  };
+
+  const ids = (nodes: Array<{ getId(): string }>) => nodes.map(item => item.getId());
+
+  it('should return direct predecessors and successors', () => {
+    const graph = new Graph(data);
+
+    expect(ids(graph.getPredecessors('d'))).toEqual(['b', 'c']);
+    expect(ids(graph.getSuccessors('c'))).toEqual(['d', 'e']);
+    expect(ids(graph.getSuccessors('c', { port: 'control' }))).toEqual(['e']);
+  });
+
+  it('should collect upstream and downstream nodes nearest first', () => {
+    const graph = new Graph(data);
+
+    expect(ids(graph.getUpstream('e'))).toEqual(['d', 'c', 'b', 'a']);
+    expect(ids(graph.getDownstream('a'))).toEqual(['b', 'c', 'd', 'e']);
+    expect(ids(graph.getDownstream('a', { nodeTypes: ['math'] }))).toEqual(['b', 'd']);
+  });
+
+  it('should find all paths and the shortest one', () => {
+    const graph = new Graph(data);
+
+    expect(graph.findAllPaths('a', 'e')).toEqual([
+      ['a', 'b', 'd', 'e'],
+      ['a', 'c', 'd', 'e'],
+      ['a', 'c', 'e']
+    ]);
+    expect(graph.findShortestPath('a', 'e')).toEqual(['a', 'c', 'e']);
+    expect(graph.findShortestPath('a', 'e', { port: 'in' })).toEqual(['a', 'b', 'd', 'e']);
+    expect(graph.findShortestPath('e', 'a')).toBeUndefined();
+  });
+
+  it('should check reachability with a filter', () => {
+    const graph = new Graph(data);
+
+    expect(graph.isReachable('b', 'e')).toBe(true);
+    expect(graph.isReachable('e', 'b')).toBe(false);
+    expect(graph.isReachable('a', 'e', { edge: edge => edge.getId() !== 'd-e' && edge.getId() !== 'c-e' })).toBe(false);
+  });
+
+  it('should stop at cycles', () => {
+    const graph = new Graph({ ...data, edges: [...data.edges, edge('e', 'a', 'ctl')] });
+
+    expect(ids(graph.getDownstream('a'))).toEqual(['b', 'c', 'd', 'e']);
+    expect(graph.findAllPaths('d', 'b')).toEqual([['d', 'e', 'a', 'b']]);
+    expect(graph.isReachable('b', 'b')).toBe(true);
+    expect(graph.isReachable('b', 'b', { nodeTypes: ['math'] })).toBe(false);
+    expect(new Graph(data).isReachable('b', 'b')).toBe(false);
+  });
+
+  it('should follow long chains', () => {
+    const count = 12000;
+    const graph = new Graph({
+      id: 'chain',
+      name: 'Chain',
+      nodes: Array.from({ length: count }, (_, i) => node(`n${i}`)),
+      edges: Array.from({ length: count - 1 }, (_, i) => edge(`n${i}`, `n${i + 1}`))
+    });
+
+    expect(graph.findAllPaths('n0', `n${count - 1}`)[0]).toHaveLength(count);
+    expect(graph.isReachable('n0', `n${count - 1}`)).toBe(true);
+    expect(graph.isReachable('n5', 'n5')).toBe(false);
+  });
+});
@@ -0,0 +1,89 @@
+import { describe, it, expect } from 'vitest';
+import { Graph } from '../Graph';
+import { GraphValidator, ValidationRule } from '../Validation';
+
+describe('GraphValidator', () => {
+  const createGraph = () => new Graph({
+    id: 'g',
+    name: 'G',
+    nodes: [
+      {
+        id: 'a',
+        name: 'A',
+        type: 'default',
+        x: 0,
+        y: 0,
+        outputs: [{ id: 'a-out', name: 'out', type: 'output', dataType: 'number' }]
+      },
+      {
+        id: 'b',
+        name: 'B',
+        type: 'default',
+        x: 200,
+        y: 0,
+        inputs: [
+          { id: 'b-in', name: 'in', type: 'input', dataType: 'number' },
+          { id: 'b-extra', name: 'extra', type: 'input' }
+        ]
+      },
+      { id: 'c', name: 'C', type: 'default', x: 400, y: 0 }
+    ],
+    edges: [{ id: 'e1', sourcePortId: 'a-out', targetPortId: 'b-in' }]
+  });
+
+  it('should report built-in diagnostics with the ids involved', () => {
+    const graph = createGraph();
+    const diagnostics = new GraphValidator().validate(graph);
+
+    expect(diagnostics).toContainEqual(expect.objectContaining({
+      ruleId: 'unconnected-input',
+      severity: 'warning',
+      nodeIds: ['b'],
+      portIds: ['b-extra']
+    }));
+    expect(diagnostics).toContainEqual(expect.objectContaining({
+      ruleId: 'orphan-node',
+      severity: 'info',
+      nodeIds: ['c']
+    }));
+    expect(diagnostics.some(d => d.severity === 'error')).toBe(false);
+  });
+
+  it('should detect dangling ports after a port is removed', () => {
+    const graph = createGraph();
+    graph.getNode('b')!.removeInput('b-in');
+
+    const diagnostics = new GraphValidator().validate(graph);
+
+    expect(diagnostics).toContainEqual(expect.objectContaining({
+      ruleId: 'dangling-port',
+      severity: 'error',
+      edgeIds: [graph.getEdges()[0].getId()]
+    }));
+  });
+
+  it('should run custom rules and report rules that throw', () => {
+    const noSelfNamedNodes: ValidationRule = {
+      id: 'no-c',
+      severity: 'error',
+      validate(graph, report) {
+        graph.getNodes()
+          .filter(node => node.getName() === 'C')
+          .forEach(node => report({ message: 'C is not allowed', nodeIds: [node.getId()] }));
+      }
+    };
+    const broken: ValidationRule = {
+      id: 'broken',
+      severity: 'warning',
+      validate() {
+        throw new Error('oops');
+      }
+    };
+    const validator = new GraphValidator([noSelfNamedNodes, broken]);
+
+    expect(validator.validate(createGraph())).toEqual([
+      { ruleId: 'no-c', severity: 'error', message: 'C is not allowed', nodeIds: ['c'] },
+      { ruleId: 'broken', severity: 'error', message: 'Rule broken failed: oops' }
+    ]);
+  });
+});
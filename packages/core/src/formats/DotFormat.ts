@@ -0,0 +1,564 @@
+import type { GraphData } from '../Graph';
+import type { NodeData } from '../Node';
+import type { EdgeData } from '../Edge';
+import type { PortData } from '../Port';
+import { CURRENT_FORMAT_VERSION } from '../Migrations';
+import { FormatAdapter, FormatReport, reportDroppedFields } from './FormatAdapter';
+
+type PortSpec = Omit<PortData, 'nodeId'>;
+
+// Attributes written by exportDot; anything else is reported as ignored on import
+const KNOWN_ATTRIBUTES = new Set(['id', 'label', 'type', 'pos', 'shape', 'rankdir']);
+const COMPASS_POINTS = new Set(['n', 'ne', 'e', 'se', 's', 'sw', 'w', 'nw', 'c', '_']);
+
+const quote = (value: string) => `"${value.replace(/["\\]/g, '\\$&').replace(/\n/g, '\\n')}"`;
+const unquote = (value: string) => value.replace(/\\([\\n])/g, (_, char) => char === 'n' ? '\n' : char);
+const escapeRecord = (value: string) => value.replace(/[\\{}|<>"]/g, '\\$&').replace(/\n/g, '\\n');
+const unescapeRecord = (value: string) => value.replace(/\\(.)/g, (_, char) => char === 'n' ? '\n' : char);
+
+/**
+ * Write graph data as a Graphviz digraph. Nodes become record shapes whose
+ * fields are the input ports, the node name and the output ports; edges
+ * connect the port fields.
+ * @param data Graph data to write
+ * @param report Issue collector
+ */
+export function exportDot(data: GraphData, report: FormatReport = () => {}): string {
+  reportDroppedFields(data, report, 'DOT', {
+    node: ['properties', 'subgraph'],
+    port: ['dataType', 'maxConnections', 'value']
+  });
+
+  const fields = (ports: PortSpec[] = []) => ports
+    .map(port => `<${escapeRecord(port.id)}> ${escapeRecord(port.name)}`)
+    .join('|');
+
+  const lines = [
+    `digraph ${quote(data.id)} {`,
+    `  label=${quote(data.name)};`,
+    '  rankdir=LR;',
+    '  node [shape=record];'
+  ];
+  data.nodes.forEach(node => {
+    const parts = [
+      node.inputs && node.inputs.length ? `{${fields(node.inputs)}}` : '',
+      escapeRecord(node.name),
+      node.outputs && node.outputs.length ? `{${fields(node.outputs)}}` : ''
+    ].filter(part => part !== '');
+    lines.push(`  ${quote(node.id)} [label="{${parts.join('|')}}", type=${quote(node.type)}, pos="${node.x},${node.y}"];`);
+  });
+
+  const owners = new Map<string, string>();
+  data.nodes.forEach(node => {
+    [...(node.inputs || []), ...(node.outputs || [])].forEach(port => owners.set(port.id, node.id));
+  });
+  data.edges.forEach((edge, k) => {
+    const source = owners.get(edge.sourcePortId);
+    const target = owners.get(edge.targetPortId);
+    if (source === undefined || target === undefined) {
+      report({ path: `edges[${k}]`, message: 'Edge references a missing port and cannot be written to DOT' });
+      return;
+    }
+    lines.push(
+      `  ${quote(source)}:${quote(edge.sourcePortId)} -> ${quote(target)}:${quote(edge.targetPortId)} [id=${quote(edge.id)}];`
+    );
+  });
+  lines.push('}');
+  return lines.join('\n') + '\n';
+}
+
+interface Token {
+  value: string;
+  kind: 'id' | 'punct' | 'edgeop';
+  quoted?: boolean;
+}
+
+function tokenize(text: string): Token[] {
+  const tokens: Token[] = [];
+  let concatenate = false;  // Quoted strings joined with '+' form a single id
+  let i = 0;
+  while (i < text.length) {
+    const char = text[i];
+    if (/\s/.test(char)) {
+      i++;
+    } else if (text.startsWith('//', i) || (char === '#' && (i === 0 || text[i - 1] === '\n'))) {
+      while (i < text.length && text[i] !== '\n') i++;
+    } else if (text.startsWith('/*', i)) {
+      const end = text.indexOf('*/', i + 2);
+      i = end === -1 ? text.length : end + 2;
+    } else if (text.startsWith('->', i) || text.startsWith('--', i)) {
+      tokens.push({ value: text.substr(i, 2), kind: 'edgeop' });
+      i += 2;
+    } else if ('{}[];,=:'.includes(char)) {
+      tokens.push({ value: char, kind: 'punct' });
+      i++;
+    } else if (char === '"') {
+      let value = '';
+      i++;
+      while (i < text.length && text[i] !== '"') {
+        if (text[i] === '\\' && text[i + 1] === '"') {
+          value += '"';
+          i += 2;
+        } else if (text[i] === '\\' && text[i + 1] === '\\') {
+          // Kept for the label escapes; read as a pair so it cannot escape a quote
+          value += '\\\\';
+          i += 2;
+        } else if (text[i] === '\\' && text[i + 1] === '\n') {
+          i += 2;
+        } else {
+          value += text[i++];
+        }
+      }
+      if (i >= text.length) {
+        throw new Error('Unterminated string in DOT input');
+      }
+      i++;
+      if (concatenate) {
+        tokens[tokens.length - 1].value += value;
+        concatenate = false;
+      } else {
+        tokens.push({ value, kind: 'id', quoted: true });
+      }
+    } else if (char === '+' && tokens.length && tokens[tokens.length - 1].quoted) {
+      concatenate = true;
+      i++;
+    } else if (char === '<') {
+      // HTML string, kept as raw text
+      let depth = 0;
+      const start = i;
+      do {
+        if (text[i] === '<') depth++;
+        if (text[i] === '>') depth--;
+        i++;
+      } while (i < text.length && depth > 0);
+      if (depth > 0) {
+        throw new Error('Unterminated HTML string in DOT input');
+      }
+      tokens.push({ value: text.slice(start + 1, i - 1), kind: 'id', quoted: true });
+    } else {
+      const match = /^(-?(\.\d+|\d+(\.\d*)?)|[A-Za-z_\u0080-\uffff][\w\u0080-\uffff]*)/.exec(text.slice(i));
+      if (!match) {
+        throw new Error(`Unexpected character '${char}' in DOT input`);
+      }
+      tokens.push({ value: match[0], kind: 'id' });
+      i += match[0].length;
+    }
+  }
+  return tokens;
+}
+
+interface Endpoint {
+  node: string;
+  port?: string;
+}
+
+interface ParsedNode {
+  id: string;
+  attributes: Record<string, string>;
+}
+
+interface ParsedEdge {
+  source: Endpoint;
+  target: Endpoint;
+  attributes: Record<string, string>;
+}
+
+interface ParsedGraph {
+  id?: string;
+  directed: boolean;
+  attributes: Record<string, string>;
+  nodes: Map<string, ParsedNode>;
+  edges: ParsedEdge[];
+  subgraphs: number;
+}
+
+interface Scope {
+  node: Record<string, string>;
+  edge: Record<string, string>;
+}
+
+/**
+ * Recursive descent parser for the DOT language. Subgraphs are flattened
+ * into the parent graph; edges to a subgraph connect every node in it.
+ */
+class DotParser {
+  private tokens: Token[];
+  private position = 0;
+  private graph: ParsedGraph = { directed: true, attributes: {}, nodes: new Map(), edges: [], subgraphs: 0 };
+
+  constructor(text: string) {
+    this.tokens = tokenize(text);
+  }
+
+  public parse(): ParsedGraph {
+    if (this.isKeyword('strict')) this.position++;
+    if (this.isKeyword('graph')) {
+      this.graph.directed = false;
+    } else if (!this.isKeyword('digraph')) {
+      throw this.error('Expected graph or digraph');
+    }
+    this.position++;
+    if (this.peek()?.kind === 'id') {
+      this.graph.id = unquote(this.next().value);
+    }
+    this.expect('{');
+    this.parseStatements({ node: {}, edge: {} }, true);
+    this.expect('}');
+    if (this.peek()) {
+      throw this.error('Unexpected content after the graph');
+    }
+    return this.graph;
+  }
+
+  private parseStatements(scope: Scope, root: boolean): string[] {
+    const members: string[] = [];
+    while (this.peek() && this.peek()!.value !== '}') {
+      this.parseStatement(scope, root, members);
+      if (this.peek()?.value === ';') this.position++;
+    }
+    return members;
+  }
+
+  private parseStatement(scope: Scope, root: boolean, members: string[]): void {
+    const token = this.peek()!;
+    if (token.kind === 'id' && !token.quoted && /^(graph|node|edge)$/i.test(token.value)) {
+      this.position++;
+      const attributes = this.parseAttributes();
+      const kind = token.value.toLowerCase();
+      if (kind === 'graph') {
+        if (root) Object.assign(this.graph.attributes, attributes);
+      } else {
+        Object.assign(scope[kind as keyof Scope], attributes);
+      }
+      return;
+    }
+    if (token.kind === 'id' && this.tokens[this.position + 1]?.value === '=') {
+      this.position += 2;
+      const value = this.expectId();
+      if (root) this.graph.attributes[token.value] = value;
+      return;
+    }
+
+    let endpoints = this.parseEndpoint(scope, members);
+    const chain: Endpoint[][] = [endpoints];
+    while (this.peek()?.kind === 'edgeop') {
+      this.position++;
+      endpoints = this.parseEndpoint(scope, members);
+      chain.push(endpoints);
+    }
+    const attributes = this.parseAttributes();
+
+    if (chain.length === 1) {
+      chain[0].forEach(endpoint => {
+        if (!endpoint.port) Object.assign(this.graph.nodes.get(endpoint.node)!.attributes, attributes);
+      });
+      return;
+    }
+    for (let i = 1; i < chain.length; i++) {
+      chain[i - 1].forEach(source => {
+        chain[i].forEach(target => {
+          this.graph.edges.push({ source, target, attributes: { ...scope.edge, ...attributes } });
+        });
+      });
+    }
+  }
+
+  private parseEndpoint(scope: Scope, members: string[]): Endpoint[] {
+    if (this.isKeyword('subgraph') || this.peek()?.value === '{') {
+      if (this.isKeyword('subgraph')) {
+        this.position++;
+        if (this.peek()?.kind === 'id') this.position++;
+      }
+      this.expect('{');
+      this.graph.subgraphs++;
+      const inner = this.parseStatements({ node: { ...scope.node }, edge: { ...scope.edge } }, false);
+      this.expect('}');
+      members.push(...inner);
+      return inner.map(node => ({ node }));
+    }
+
+    const node = unquote(this.expectId());
+    let port: string | undefined;
+    if (this.peek()?.value === ':') {
+      this.position++;
+      port = unquote(this.expectId());
+      if (this.peek()?.value === ':') {
+        this.position += 2;  // Compass point after the port
+      }
+    }
+    if (!this.graph.nodes.has(node)) {
+      this.graph.nodes.set(node, { id: node, attributes: { ...scope.node } });
+    }
+    members.push(node);
+    return [{ node, port }];
+  }
+
+  private parseAttributes(): Record<string, string> {
+    const attributes: Record<string, string> = {};
+    while (this.peek()?.value === '[') {
+      this.position++;
+      while (this.peek() && this.peek()!.value !== ']') {
+        const key = this.expectId();
+        let value = 'true';
+        if (this.peek()?.value === '=') {
+          this.position++;
+          value = this.expectId();
+        }
+        attributes[key] = value;
+        if (this.peek()?.value === ',' || this.peek()?.value === ';') this.position++;
+      }
+      this.expect(']');
+    }
+    return attributes;
+  }
+
+  private peek(): Token | undefined {
+    return this.tokens[this.position];
+  }
+
+  private next(): Token {
+    const token = this.tokens[this.position++];
+    if (!token) {
+      throw new Error('Unexpected end of DOT input');
+    }
+    return token;
+  }
+
+  private isKeyword(keyword: string): boolean {
+    const token = this.peek();
+    return !!token && token.kind === 'id' && !token.quoted && token.value.toLowerCase() === keyword;
+  }
+
+  private expect(value: string): void {
+    if (this.next().value !== value) {
+      this.position--;
+      throw this.error(`Expected '${value}'`);
+    }
+  }
+
+  private expectId(): string {
+    const token = this.next();
+    if (token.kind !== 'id') {
+      this.position--;
+      throw this.error('Expected an identifier');
+    }
+    return token.value;
+  }
+
+  private error(message: string): Error {
+    const token = this.peek();
+    return new Error(`${message} in DOT input${token ? ` near '${token.value}'` : ' at end of input'}`);
+  }
+}
+
+interface RecordField {
+  port?: string;
+  text: string;
+  group?: RecordField[];
+}
+
+function parseRecord(label: string): RecordField[] {
+  let i = 0;
+  const parseList = (): RecordField[] => {
+    const list: RecordField[] = [];
+    let field: RecordField = { text: '' };
+    while (i < label.length) {
+      const char = label[i];
+      if (char === '\\' && i + 1 < label.length) {
+        field.text += unescapeRecord(label.slice(i, i + 2));
+        i += 2;
+      } else if (char === '{') {
+        i++;
+        field.group = parseList();
+        i++;
+      } else if (char === '}') {
+        break;
+      } else if (char === '|') {
+        list.push(field);
+        field = { text: '' };
+        i++;
+      } else if (char === '<') {
+        const end = label.indexOf('>', i);
+        field.port = unescapeRecord(label.slice(i + 1, end === -1 ? label.length : end)).trim();
+        i = end === -1 ? label.length : end + 1;
+      } else {
+        field.text += char;
+        i++;
+      }
+    }
+    list.push(field);
+    return list.map(item => ({ ...item, text: item.text.trim() }));
+  };
+  return parseList();
+}
+
+/**
+ * Split the fields of a record label into the ports left and right of the
+ * first field without a port, which is taken as the node name
+ */
+function readRecord(label: string): { name?: string; inputs: RecordField[]; outputs: RecordField[]; unordered: RecordField[] } {
+  let fields = parseRecord(label);
+  while (fields.length === 1 && fields[0].group) {
+    fields = fields[0].group;
+  }
+  const flatten = (list: RecordField[]): RecordField[] =>
+    list.flatMap(field => field.group ? flatten(field.group) : [field]);
+
+  const titleIndex = fields.findIndex(field => !field.group && field.port === undefined);
+  if (titleIndex === -1) {
+    return { inputs: [], outputs: [], unordered: flatten(fields).filter(field => field.port !== undefined) };
+  }
+  const ports = (list: RecordField[]) => flatten(list).filter(field => field.port !== undefined);
+  return {
+    name: fields[titleIndex].text,
+    inputs: ports(fields.slice(0, titleIndex)),
+    outputs: ports(fields.slice(titleIndex + 1)),
+    unordered: []
+  };
+}
+
+const plainLabel = (label: string) => label.replace(/\\[nlr]/g, ' ').replace(/\\(.)/g, '$1').trim();
+
+/**
+ * Build graph data from a DOT document. Record labels written by exportDot
+ * restore the ports in their order; other files get ports from the edges
+ * that use them, and a default in/out port for edges without one.
+ * @param text DOT source
+ * @param report Issue collector
+ */
+export function importDot(text: string, report: FormatReport = () => {}): GraphData {
+  const parsed = new DotParser(text).parse();
+  if (!parsed.directed) {
+    report({ path: 'edges', message: 'Undirected DOT graph, edges are read from left to right' });
+  }
+  if (parsed.subgraphs > 0) {
+    report({ path: 'nodes', message: `${parsed.subgraphs} DOT subgraph(s) flattened into the graph` });
+  }
+
+  interface PortDraft { key: string; name: string; type: 'input' | 'output'; id?: string }
+  const drafts = new Map<string, { node: NodeData; ports: PortDraft[] }>();
+  const nodeIds = Array.from(parsed.nodes.keys());
+  // Ports with a known direction, from the record layout or from earlier edges
+  const used = new Map<string, 'input' | 'output'>();
+
+  nodeIds.forEach((nodeId, i) => {
+    const { attributes } = parsed.nodes.get(nodeId)!;
+    const label = attributes.label !== undefined ? attributes.label : nodeId;
+    const isRecord = /record/i.test(attributes.shape || '') || /(^|[^\\])[{|]/.test(label);
+    const ports: PortDraft[] = [];
+    let name = plainLabel(label);
+    if (isRecord) {
+      const record = readRecord(label);
+      name = record.name || nodeId;
+      const toDraft = (type: 'input' | 'output') => (field: RecordField) => {
+        ports.push({ key: field.port!, name: field.text || field.port!, type });
+        used.set(`${nodeId}:${field.port}`, type);
+      };
+      record.inputs.forEach(toDraft('input'));
+      record.outputs.forEach(toDraft('output'));
+      // Direction of ports outside the name layout comes from the edges below
+      record.unordered.forEach(field => ports.push({ key: field.port!, name: field.text || field.port!, type: 'input' }));
+    }
+
+    let x = i * 200;
+    let y = 0;
+    if (attributes.pos !== undefined) {
+      const [px, py] = attributes.pos.replace(/!$/, '').split(',').map(Number);
+      if (Number.isFinite(px) && Number.isFinite(py)) {
+        x = px;
+        y = py;
+      } else {
+        report({ path: `nodes[${i}].x`, message: `Invalid pos attribute ${attributes.pos}` });
+      }
+    }
+
+    const ignored = Object.keys(attributes).filter(key => !KNOWN_ATTRIBUTES.has(key));
+    if (ignored.length > 0) {
+      report({ path: `nodes[${i}]`, message: `Ignored DOT attributes: ${ignored.join(', ')}` });
+    }
+    drafts.set(nodeId, { node: { id: nodeId, name, type: attributes.type ? unquote(attributes.type) : 'default', x, y, properties: {} }, ports });
+  });
+
+  const resolved: Array<{ source: PortDraft; target: PortDraft; sourceNode: string; targetNode: string; edge: ParsedEdge } | null> = [];
+  parsed.edges.forEach((edge, k) => {
+    const resolve = (endpoint: Endpoint, type: 'input' | 'output'): PortDraft | null => {
+      const { ports } = drafts.get(endpoint.node)!;
+      const key = endpoint.port;
+      if (key === undefined || (COMPASS_POINTS.has(key) && !ports.some(port => port.key === key))) {
+        const existing = ports.find(port => port.type === type);
+        if (existing) return existing;
+        const key = type === 'input' ? 'in' : 'out';
+        const draft: PortDraft = { key, name: key, type, id: `${endpoint.node}-${key}` };
+        ports.push(draft);
+        return draft;
+      }
+      let draft = ports.find(port => port.key === key);
+      if (!draft) {
+        draft = { key, name: key, type };
+        ports.push(draft);
+      }
+      const usage = used.get(`${endpoint.node}:${key}`);
+      if (usage && usage !== type) {
+        report({ path: `edges[${k}]`, message: `Port ${key} of node ${endpoint.node} is used as both input and output, edge skipped` });
+        return null;
+      }
+      used.set(`${endpoint.node}:${key}`, type);
+      draft.type = type;
+      return draft;
+    };
+    const source = resolve(edge.source, 'output');
+    const target = resolve(edge.target, 'input');
+    resolved.push(source && target
+      ? { source, target, sourceNode: edge.source.node, targetNode: edge.target.node, edge }
+      : null);
+  });
+
+  // Field ids are local to a node; keep them as port ids only when they are unique
+  const keyCount = new Map<string, number>();
+  drafts.forEach(({ ports }) => ports.forEach(port => keyCount.set(port.key, (keyCount.get(port.key) || 0) + 1)));
+  const portId = (nodeId: string, port: PortDraft) =>
+    port.id || (keyCount.get(port.key) === 1 ? port.key : `${nodeId}-${port.key}`);
+
+  const nodes = nodeIds.map(nodeId => {
+    const { node, ports } = drafts.get(nodeId)!;
+    const toSpec = (port: PortDraft): PortSpec => ({ id: portId(nodeId, port), name: port.name, type: port.type });
+    return {
+      ...node,
+      inputs: ports.filter(port => port.type === 'input').map(toSpec),
+      outputs: ports.filter(port => port.type === 'output').map(toSpec)
+    };
+  });
+
+  const edges: EdgeData[] = [];
+  const edgeIds = new Set<string>();
+  resolved.forEach((item, k) => {
+    if (!item) return;
+    const sourcePortId = portId(item.sourceNode, item.source);
+    const targetPortId = portId(item.targetNode, item.target);
+    const id = item.edge.attributes.id ? unquote(item.edge.attributes.id) : `edge-${sourcePortId}-${targetPortId}`;
+    if (edgeIds.has(id)) {
+      report({ path: `edges[${k}]`, message: `Duplicate edge ${id} skipped` });
+      return;
+    }
+    edgeIds.add(id);
+    edges.push({ id, sourcePortId, targetPortId });
+  });
+
+  const id = parsed.id || 'graph';
+  return {
+    formatVersion: CURRENT_FORMAT_VERSION,
+    id,
+    // The graph label is written with quote, unlike the record labels of nodes
+    name: parsed.attributes.label !== undefined ? unquote(parsed.attributes.label) : id,
+    nodes,
+    edges
+  };
+}
+
+export const dotFormat: FormatAdapter = {
+  name: 'dot',
+  extension: 'gv',
+  description: 'Graphviz DOT',
+  export: exportDot,
+  import: importDot
+};
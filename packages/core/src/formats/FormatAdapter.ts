@@ -0,0 +1,66 @@
+import type { GraphData } from '../Graph';
+import { ANY_TYPE } from '../DataTypes';
+
+export interface FormatIssue {
+  path: string;  // JSON path of the affected GraphData item, e.g. nodes[2].properties
+  message: string;
+}
+
+export type FormatReport = (issue: FormatIssue) => void;
+
+/**
+ * Converts GraphData to and from a text format.
+ * Adapters report everything they cannot represent instead of dropping it silently.
+ */
+export interface FormatAdapter {
+  name: string;
+  extension: string;  // File extension without the leading dot
+  description?: string;
+  export?(data: GraphData, report: FormatReport): string;
+  import?(text: string, report: FormatReport): GraphData;
+}
+
+export interface ExportResult {
+  text: string;
+  issues: FormatIssue[];
+}
+
+export interface ImportResult {
+  data: GraphData;
+  issues: FormatIssue[];
+}
+
+export interface DroppedFields {
+  node?: Array<'properties' | 'subgraph'>;
+  port?: Array<'dataType' | 'maxConnections' | 'value'>;
+}
+
+/**
+ * Report node and port fields that carry information a format cannot hold.
+ * Empty property bags and the 'any' data type are defaults and not reported.
+ * @param data Graph data being written
+ * @param report Issue collector
+ * @param format Format name used in the messages
+ * @param fields Fields the format does not write
+ */
+export function reportDroppedFields(data: GraphData, report: FormatReport, format: string, fields: DroppedFields): void {
+  data.nodes.forEach((node, i) => {
+    (fields.node || []).forEach(field => {
+      const value = node[field];
+      const empty = value === undefined || (field === 'properties' && Object.keys(value).length === 0);
+      if (!empty) {
+        report({ path: `nodes[${i}].${field}`, message: `Node ${field} cannot be written to ${format}` });
+      }
+    });
+    (['inputs', 'outputs'] as const).forEach(key => {
+      (node[key] || []).forEach((port, j) => {
+        (fields.port || []).forEach(field => {
+          const value = port[field];
+          if (value !== undefined && !(field === 'dataType' && value === ANY_TYPE)) {
+            report({ path: `nodes[${i}].${key}[${j}].${field}`, message: `Port ${field} cannot be written to ${format}` });
+          }
+        });
+      });
+    });
+  });
+}
@@ -0,0 +1,84 @@
+import type { GraphData } from '../Graph';
+import { ExportResult, FormatAdapter, FormatIssue, ImportResult } from './FormatAdapter';
+import { dotFormat } from './DotFormat';
+import { mermaidFormat } from './MermaidFormat';
+import { graphMLFormat } from './GraphMLFormat';
+
+export class FormatRegistry {
+  private adapters: Map<string, FormatAdapter> = new Map();
+
+  public register(adapter: FormatAdapter): void {
+    if (this.adapters.has(adapter.name)) {
+      throw new Error(`Format ${adapter.name} is already registered`);
+    }
+    this.adapters.set(adapter.name, adapter);
+  }
+
+  public unregister(name: string): void {
+    this.adapters.delete(name);
+  }
+
+  public has(name: string): boolean {
+    return this.adapters.has(name);
+  }
+
+  public get(name: string): FormatAdapter | undefined {
+    return this.adapters.get(name);
+  }
+
+  public getAll(): FormatAdapter[] {
+    return Array.from(this.adapters.values());
+  }
+
+  /**
+   * Find the adapter for a file extension
+   * @param extension Extension with or without the leading dot
+   */
+  public getByExtension(extension: string): FormatAdapter | undefined {
+    const normalized = extension.replace(/^\./, '').toLowerCase();
+    return this.getAll().find(adapter => adapter.extension === normalized);
+  }
+
+  /**
+   * Write graph data in the given format
+   * @param name Format name
+   * @param data Graph data to write
+   */
+  public export(name: string, data: GraphData): ExportResult {
+    const adapter = this.adapters.get(name);
+    if (!adapter || !adapter.export) {
+      throw new Error(`Format ${name} does not support export`);
+    }
+    const issues: FormatIssue[] = [];
+    const text = adapter.export(data, issue => issues.push(issue));
+    return { text, issues };
+  }
+
+  /**
+   * Read graph data from text in the given format
+   * @param name Format name
+   * @param text Document text
+   */
+  public import(name: string, text: string): ImportResult {
+    const adapter = this.adapters.get(name);
+    if (!adapter || !adapter.import) {
+      throw new Error(`Format ${name} does not support import`);
+    }
+    const issues: FormatIssue[] = [];
+    const data = adapter.import(text, issue => issues.push(issue));
+    return { data, issues };
+  }
+}
+
+/**
+ * Create a registry with the built-in DOT, Mermaid and GraphML formats
+ */
+export function createDefaultFormats(): FormatRegistry {
+  const registry = new FormatRegistry();
+  registry.register(dotFormat);
+  registry.register(mermaidFormat);
+  registry.register(graphMLFormat);
+  return registry;
+}
+
+export const defaultFormats = createDefaultFormats();
@@ -0,0 +1,400 @@
+import type { GraphData } from '../Graph';
+import type { NodeData } from '../Node';
+import type { EdgeData } from '../Edge';
+import type { PortData } from '../Port';
+import { CURRENT_FORMAT_VERSION } from '../Migrations';
+import { FormatAdapter, FormatReport } from './FormatAdapter';
+import { XmlElement, childElements, escapeXml, localName, parseXml } from './Xml';
+
+type PortSpec = Omit<PortData, 'nodeId'>;
+type KeyTarget = 'graph' | 'node' | 'port';
+
+interface KeyDefinition {
+  id: string;
+  for: KeyTarget;
+  name: string;
+  type: 'string' | 'double' | 'int';
+}
+
+// Data keys written by exportGraphML. Imports match keys by target and attr.name.
+const KEYS: KeyDefinition[] = [
+  { id: 'graph.name', for: 'graph', name: 'name', type: 'string' },
+  { id: 'node.name', for: 'node', name: 'name', type: 'string' },
+  { id: 'node.type', for: 'node', name: 'type', type: 'string' },
+  { id: 'node.x', for: 'node', name: 'x', type: 'double' },
+  { id: 'node.y', for: 'node', name: 'y', type: 'double' },
+  { id: 'node.properties', for: 'node', name: 'properties', type: 'string' },
+  { id: 'port.name', for: 'port', name: 'name', type: 'string' },
+  { id: 'port.direction', for: 'port', name: 'direction', type: 'string' },
+  { id: 'port.dataType', for: 'port', name: 'dataType', type: 'string' },
+  { id: 'port.maxConnections', for: 'port', name: 'maxConnections', type: 'int' },
+  { id: 'port.value', for: 'port', name: 'value', type: 'string' }
+];
+
+/**
+ * Whether a value survives a JSON round trip unchanged
+ */
+function isJsonSafe(value: unknown, seen: Set<object> = new Set()): boolean {
+  if (value === null || typeof value === 'string' || typeof value === 'boolean') return true;
+  if (typeof value === 'number') return Number.isFinite(value);
+  if (typeof value !== 'object') return false;
+  if (seen.has(value)) return false;
+  const prototype = Object.getPrototypeOf(value);
+  if (!Array.isArray(value) && prototype !== Object.prototype && prototype !== null) return false;
+  seen.add(value);
+  const safe = Object.values(value).every(item => isJsonSafe(item, seen));
+  seen.delete(value);
+  return safe;
+}
+
+/**
+ * Write graph data as GraphML. Positions, node types and port details are
+ * stored as data keys, ports as GraphML ports named by their id and
+ * composite nodes as nested graphs. Values that JSON cannot hold are reported.
+ * @param data Graph data to write
+ * @param report Issue collector
+ */
+export function exportGraphML(data: GraphData, report: FormatReport = () => {}): string {
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<graphml xmlns="http://graphml.graphdrawing.org/xmlns">'
+  ];
+  KEYS.forEach(key => {
+    lines.push(`  <key id="${key.id}" for="${key.for}" attr.name="${key.name}" attr.type="${key.type}"/>`);
+  });
+  writeGraph(data, '', '  ', lines, report);
+  lines.push('</graphml>');
+  return lines.join('\n') + '\n';
+}
+
+function writeGraph(data: GraphData, path: string, indent: string, lines: string[], report: FormatReport): void {
+  const dataLine = (key: string, value: string | number) => `<data key="${key}">${escapeXml(String(value))}</data>`;
+  const json = (value: unknown, itemPath: string): string | undefined => {
+    if (isJsonSafe(value)) return JSON.stringify(value);
+    report({ path: itemPath, message: 'Value cannot be written to GraphML as JSON' });
+    return undefined;
+  };
+
+  lines.push(`${indent}<graph id="${escapeXml(data.id)}" edgedefault="directed">`);
+  lines.push(`${indent}  ${dataLine('graph.name', data.name)}`);
+  data.nodes.forEach((node, i) => {
+    const nodePath = `${path}nodes[${i}]`;
+    lines.push(`${indent}  <node id="${escapeXml(node.id)}">`);
+    const inner = `${indent}    `;
+    lines.push(`${inner}${dataLine('node.name', node.name)}`);
+    lines.push(`${inner}${dataLine('node.type', node.type)}`);
+    lines.push(`${inner}${dataLine('node.x', node.x)}`);
+    lines.push(`${inner}${dataLine('node.y', node.y)}`);
+    if (node.properties && Object.keys(node.properties).length > 0) {
+      const properties: Record<string, any> = {};
+      Object.keys(node.properties).forEach(key => {
+        if (json(node.properties![key], `${nodePath}.properties.${key}`) !== undefined) {
+          properties[key] = node.properties![key];
+        }
+      });
+      lines.push(`${inner}${dataLine('node.properties', JSON.stringify(properties))}`);
+    }
+
+    (['inputs', 'outputs'] as const).forEach(key => {
+      (node[key] || []).forEach((port, j) => {
+        lines.push(`${inner}<port name="${escapeXml(port.id)}">`);
+        lines.push(`${inner}  ${dataLine('port.name', port.name)}`);
+        lines.push(`${inner}  ${dataLine('port.direction', port.type)}`);
+        if (port.dataType !== undefined) lines.push(`${inner}  ${dataLine('port.dataType', port.dataType)}`);
+        if (port.maxConnections !== undefined) lines.push(`${inner}  ${dataLine('port.maxConnections', port.maxConnections)}`);
+        if (port.value !== undefined) {
+          const value = json(port.value, `${nodePath}.${key}[${j}].value`);
+          if (value !== undefined) lines.push(`${inner}  ${dataLine('port.value', value)}`);
+        }
+        lines.push(`${inner}</port>`);
+      });
+    });
+
+    if (node.subgraph) {
+      writeGraph(node.subgraph, `${nodePath}.subgraph.`, inner, lines, report);
+    }
+    lines.push(`${indent}  </node>`);
+  });
+
+  const owners = new Map<string, string>();
+  data.nodes.forEach(node => {
+    [...(node.inputs || []), ...(node.outputs || [])].forEach(port => owners.set(port.id, node.id));
+  });
+  data.edges.forEach((edge, k) => {
+    const source = owners.get(edge.sourcePortId);
+    const target = owners.get(edge.targetPortId);
+    if (source === undefined || target === undefined) {
+      report({ path: `${path}edges[${k}]`, message: 'Edge references a missing port and cannot be written to GraphML' });
+      return;
+    }
+    lines.push(
+      `${indent}  <edge id="${escapeXml(edge.id)}" source="${escapeXml(source)}" target="${escapeXml(target)}"` +
+      ` sourceport="${escapeXml(edge.sourcePortId)}" targetport="${escapeXml(edge.targetPortId)}"/>`
+    );
+  });
+  lines.push(`${indent}</graph>`);
+}
+
+interface KeyLookup {
+  // key id -> known attribute name, undefined for keys this adapter does not use
+  get(target: KeyTarget, keyId: string): string | undefined;
+  defaults(target: KeyTarget): Map<string, string>;
+  isGraphics(keyId: string): boolean;
+}
+
+function readKeys(root: XmlElement): KeyLookup {
+  const names = new Map<string, { for: string; name: string }>();
+  const defaults = new Map<string, Map<string, string>>();
+  const graphics = new Set<string>();
+  childElements(root, 'key').forEach(key => {
+    const target = key.attributes.for || 'all';
+    names.set(key.attributes.id, { for: target, name: key.attributes['attr.name'] || key.attributes.id });
+    if (key.attributes['yfiles.type'] === 'nodegraphics') {
+      graphics.add(key.attributes.id);
+    }
+    const [fallback] = childElements(key, 'default');
+    if (fallback) {
+      if (!defaults.has(target)) defaults.set(target, new Map());
+      defaults.get(target)!.set(key.attributes['attr.name'] || key.attributes.id, fallback.text.trim());
+    }
+  });
+  const known = new Set(KEYS.map(key => `${key.for}:${key.name}`));
+  return {
+    get(target, keyId) {
+      const key = names.get(keyId);
+      if (!key || (key.for !== target && key.for !== 'all')) return undefined;
+      return known.has(`${target}:${key.name}`) ? key.name : undefined;
+    },
+    defaults(target) {
+      return new Map([...(defaults.get('all') || []), ...(defaults.get(target) || [])]);
+    },
+    isGraphics(keyId) {
+      return graphics.has(keyId);
+    }
+  };
+}
+
+/**
+ * Collect the data of an element by attribute name; data this adapter has no
+ * use for is returned separately so it can be reported
+ */
+function readData(element: XmlElement, target: KeyTarget, keys: KeyLookup) {
+  const values = keys.defaults(target);
+  const ignored: string[] = [];
+  let graphics: XmlElement | undefined;
+  childElements(element, 'data').forEach(data => {
+    const keyId = data.attributes.key;
+    const name = keys.get(target, keyId);
+    if (name) {
+      values.set(name, data.text.trim());
+    } else if (keys.isGraphics(keyId)) {
+      graphics = data;
+    } else {
+      ignored.push(keyId);
+    }
+  });
+  return { values, ignored, graphics };
+}
+
+/**
+ * Read the position and label of a yEd node from its graphics data
+ */
+function readGraphics(graphics: XmlElement): { x?: number; y?: number; label?: string } {
+  const find = (element: XmlElement, name: string): XmlElement | undefined => {
+    for (const child of element.children) {
+      if (localName(child) === name) return child;
+      const nested = find(child, name);
+      if (nested) return nested;
+    }
+    return undefined;
+  };
+  const geometry = find(graphics, 'Geometry');
+  const label = find(graphics, 'NodeLabel');
+  return {
+    x: geometry ? Number(geometry.attributes.x) : undefined,
+    y: geometry ? Number(geometry.attributes.y) : undefined,
+    label: label ? label.text.trim() : undefined
+  };
+}
+
+function readGraph(graph: XmlElement, path: string, keys: KeyLookup, report: FormatReport): GraphData {
+  if (graph.attributes.edgedefault === 'undirected') {
+    report({ path: `${path}edges`, message: 'Undirected GraphML graph, edges are read from source to target' });
+  }
+  if (childElements(graph, 'hyperedge').length > 0) {
+    report({ path: `${path}edges`, message: 'GraphML hyperedges are not supported and were skipped' });
+  }
+
+  interface PortDraft { key: string; spec: PortSpec; known: boolean }
+  const drafts = new Map<string, { node: NodeData; ports: PortDraft[] }>();
+
+  childElements(graph, 'node').forEach((element, i) => {
+    const nodePath = `${path}nodes[${i}]`;
+    const id = element.attributes.id;
+    if (!id) {
+      report({ path: nodePath, message: 'GraphML node without an id skipped' });
+      return;
+    }
+    const { values, ignored, graphics } = readData(element, 'node', keys);
+    const layout = graphics ? readGraphics(graphics) : {};
+    const number = (value: string | undefined, fallback: number | undefined, axis: string) => {
+      const parsed = value !== undefined ? Number(value) : fallback;
+      if (parsed !== undefined && Number.isFinite(parsed)) return parsed;
+      if (value !== undefined) report({ path: `${nodePath}.${axis}`, message: `Invalid ${axis} value ${value}` });
+      return axis === 'x' ? i * 200 : 0;
+    };
+
+    let properties: Record<string, any> = {};
+    if (values.has('properties')) {
+      try {
+        properties = JSON.parse(values.get('properties')!);
+      } catch {
+        report({ path: `${nodePath}.properties`, message: 'Node properties are not valid JSON' });
+      }
+    }
+    if (ignored.length > 0) {
+      report({ path: nodePath, message: `Ignored GraphML data keys: ${ignored.join(', ')}` });
+    }
+
+    const ports = childElements(element, 'port').map((port): PortDraft => {
+      const portData = readData(port, 'port', keys);
+      const direction = portData.values.get('direction');
+      const spec: PortSpec = {
+        id: port.attributes.name,
+        name: portData.values.get('name') || port.attributes.name,
+        type: direction === 'input' ? 'input' : 'output'
+      };
+      if (portData.values.has('dataType')) spec.dataType = portData.values.get('dataType');
+      if (portData.values.has('maxConnections')) spec.maxConnections = Number(portData.values.get('maxConnections'));
+      if (portData.values.has('value')) {
+        try {
+          spec.value = JSON.parse(portData.values.get('value')!);
+        } catch {
+          report({ path: nodePath, message: `Value of port ${port.attributes.name} is not valid JSON` });
+        }
+      }
+      if (port.children.some(child => localName(child) === 'port')) {
+        report({ path: nodePath, message: `Ports nested in port ${port.attributes.name} are not supported` });
+      }
+      return { key: port.attributes.name, spec, known: direction === 'input' || direction === 'output' };
+    });
+
+    const node: NodeData = {
+      id,
+      name: values.get('name') || layout.label || id,
+      type: values.get('type') || 'default',
+      x: number(values.get('x'), layout.x, 'x'),
+      y: number(values.get('y'), layout.y, 'y'),
+      properties
+    };
+    const [subgraph] = childElements(element, 'graph');
+    if (subgraph) {
+      node.subgraph = readGraph(subgraph, `${nodePath}.subgraph.`, keys, report);
+    }
+    drafts.set(id, { node, ports });
+  });
+
+  // Ports without a direction take it from the edges that use them
+  const resolve = (nodeId: string, key: string | undefined, type: 'input' | 'output', edgePath: string): PortDraft | null => {
+    const { ports } = drafts.get(nodeId)!;
+    if (key === undefined) {
+      const existing = ports.find(port => port.known && port.spec.type === type);
+      if (existing) return existing;
+      const name = type === 'input' ? 'in' : 'out';
+      const draft: PortDraft = { key: name, spec: { id: `${nodeId}-${name}`, name, type }, known: true };
+      ports.push(draft);
+      return draft;
+    }
+    let draft = ports.find(port => port.key === key);
+    if (!draft) {
+      draft = { key, spec: { id: key, name: key, type }, known: false };
+      ports.push(draft);
+    }
+    if (draft.known && draft.spec.type !== type) {
+      report({ path: edgePath, message: `Port ${key} of node ${nodeId} is an ${draft.spec.type} port, edge skipped` });
+      return null;
+    }
+    draft.spec.type = type;
+    draft.known = true;
+    return draft;
+  };
+
+  const edgeDrafts: Array<{ id?: string; source: PortDraft; target: PortDraft }> = [];
+  childElements(graph, 'edge').forEach((element, k) => {
+    const edgePath = `${path}edges[${k}]`;
+    const { source, target, sourceport, targetport, directed } = element.attributes;
+    if (!drafts.has(source) || !drafts.has(target)) {
+      report({ path: edgePath, message: 'Edge references a missing node and was skipped' });
+      return;
+    }
+    if (directed === 'false') {
+      report({ path: edgePath, message: 'Undirected edge read from source to target' });
+    }
+    const ignored = childElements(element, 'data').map(data => data.attributes.key);
+    if (ignored.length > 0) {
+      report({ path: edgePath, message: `Ignored GraphML data keys: ${ignored.join(', ')}` });
+    }
+    const sourcePort = resolve(source, sourceport, 'output', edgePath);
+    const targetPort = resolve(target, targetport, 'input', edgePath);
+    if (sourcePort && targetPort) {
+      edgeDrafts.push({ id: element.attributes.id, source: sourcePort, target: targetPort });
+    }
+  });
+
+  // Port names are local to a node; keep them as ids only when they are unique
+  const keyCount = new Map<string, number>();
+  drafts.forEach(({ ports }) => ports.forEach(port => keyCount.set(port.spec.id, (keyCount.get(port.spec.id) || 0) + 1)));
+  const nodes = Array.from(drafts.entries()).map(([nodeId, { node, ports }]) => {
+    ports.forEach(port => {
+      if (keyCount.get(port.spec.id)! > 1) port.spec.id = `${nodeId}-${port.key}`;
+    });
+    return {
+      ...node,
+      inputs: ports.filter(port => port.spec.type === 'input').map(port => port.spec),
+      outputs: ports.filter(port => port.spec.type === 'output').map(port => port.spec)
+    };
+  });
+
+  const edges: EdgeData[] = edgeDrafts.map(({ id, source, target }) => ({
+    id: id || `edge-${source.spec.id}-${target.spec.id}`,
+    sourcePortId: source.spec.id,
+    targetPortId: target.spec.id
+  }));
+
+  const { values, ignored } = readData(graph, 'graph', keys);
+  if (ignored.length > 0) {
+    report({ path: path || '$', message: `Ignored GraphML data keys: ${ignored.join(', ')}` });
+  }
+  const id = graph.attributes.id || 'graph';
+  return { formatVersion: CURRENT_FORMAT_VERSION, id, name: values.get('name') || id, nodes, edges };
+}
+
+/**
+ * Build graph data from a GraphML document. Data keys are matched by their
+ * attr.name, so files from other tools load as long as they use the same
+ * names; yEd node graphics supply positions and labels when those are missing.
+ * @param text GraphML source
+ * @param report Issue collector
+ */
+export function importGraphML(text: string, report: FormatReport = () => {}): GraphData {
+  const root = parseXml(text);
+  if (localName(root) !== 'graphml') {
+    throw new Error(`Expected a graphml root element, found <${root.name}>`);
+  }
+  const graphs = childElements(root, 'graph');
+  if (graphs.length === 0) {
+    throw new Error('GraphML document contains no graph');
+  }
+  if (graphs.length > 1) {
+    report({ path: '$', message: `Only the first of ${graphs.length} GraphML graphs was read` });
+  }
+  return readGraph(graphs[0], '', readKeys(root), report);
+}
+
+export const graphMLFormat: FormatAdapter = {
+  name: 'graphml',
+  extension: 'graphml',
+  description: 'GraphML',
+  export: exportGraphML,
+  import: importGraphML
+};
@@ -0,0 +1,73 @@
+import type { GraphData } from '../Graph';
+import { FormatAdapter, FormatReport, reportDroppedFields } from './FormatAdapter';
+
+// Words that end or redirect a flowchart statement when used as a node id
+const RESERVED_IDS = new Set(['end', 'graph', 'flowchart', 'subgraph', 'style', 'class', 'classdef', 'click', 'linkstyle', 'direction', 'default']);
+
+const escapeLabel = (value: string) => value
+  .replace(/"/g, '#quot;')
+  .replace(/\\/g, '#92;')
+  .replace(/</g, '#lt;')
+  .replace(/>/g, '#gt;')
+  .replace(/\n/g, '<br>');
+
+/**
+ * Write graph data as a Mermaid flowchart. Node ids are reduced to the
+ * characters Mermaid accepts and edges are labelled with their port names.
+ * Mermaid lays the chart out itself, so node positions are not written.
+ * @param data Graph data to write
+ * @param report Issue collector
+ */
+export function exportMermaid(data: GraphData, report: FormatReport = () => {}): string {
+  reportDroppedFields(data, report, 'Mermaid', {
+    node: ['properties', 'subgraph'],
+    port: ['dataType', 'maxConnections', 'value']
+  });
+  if (data.nodes.length > 0) {
+    report({ path: 'nodes', message: 'Node positions cannot be written to Mermaid' });
+  }
+
+  const ids = new Map<string, string>();
+  const taken = new Set<string>();
+  data.nodes.forEach((node, i) => {
+    let id = node.id.replace(/[^\w-]/g, '_');
+    if (!id || RESERVED_IDS.has(id.toLowerCase()) || taken.has(id)) {
+      const base = id || 'node';
+      let suffix = i;
+      id = `${base}_${suffix}`;
+      while (taken.has(id)) {
+        id = `${base}_${++suffix}`;
+      }
+    }
+    ids.set(node.id, id);
+    taken.add(id);
+  });
+
+  const ports = new Map<string, { nodeId: string; name: string }>();
+  data.nodes.forEach(node => {
+    [...(node.inputs || []), ...(node.outputs || [])].forEach(port => ports.set(port.id, { nodeId: node.id, name: port.name }));
+  });
+
+  const lines = ['flowchart LR'];
+  data.nodes.forEach(node => {
+    lines.push(`  ${ids.get(node.id)}["${escapeLabel(node.name)}"]`);
+  });
+  data.edges.forEach((edge, k) => {
+    const source = ports.get(edge.sourcePortId);
+    const target = ports.get(edge.targetPortId);
+    if (!source || !target) {
+      report({ path: `edges[${k}]`, message: 'Edge references a missing port and cannot be written to Mermaid' });
+      return;
+    }
+    const label = escapeLabel(`${source.name} → ${target.name}`);
+    lines.push(`  ${ids.get(source.nodeId)} -->|"${label}"| ${ids.get(target.nodeId)}`);
+  });
+  return lines.join('\n') + '\n';
+}
+
+export const mermaidFormat: FormatAdapter = {
+  name: 'mermaid',
+  extension: 'mmd',
+  description: 'Mermaid flowchart',
+  export: exportMermaid
+};
@@ -0,0 +1,117 @@
+export interface XmlElement {
+  name: string;
+  attributes: Record<string, string>;
+  children: XmlElement[];
+  text: string;  // Concatenated character data of the element itself
+}
+
+const ENTITIES: Record<string, string> = { lt: '<', gt: '>', amp: '&', quot: '"', apos: "'" };
+
+export function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function decodeEntities(value: string): string {
+  return value.replace(/&(#x[0-9a-fA-F]+|#\d+|\w+);/g, (entity, name: string) => {
+    if (name.startsWith('#x')) return String.fromCodePoint(parseInt(name.slice(2), 16));
+    if (name.startsWith('#')) return String.fromCodePoint(parseInt(name.slice(1), 10));
+    return ENTITIES[name] !== undefined ? ENTITIES[name] : entity;
+  });
+}
+
+/**
+ * Element name without its namespace prefix
+ */
+export function localName(element: XmlElement): string {
+  return element.name.slice(element.name.indexOf(':') + 1);
+}
+
+export function childElements(element: XmlElement, name: string): XmlElement[] {
+  return element.children.filter(child => localName(child) === name);
+}
+
+/**
+ * Parse the subset of XML used by data formats: elements, attributes, text,
+ * CDATA and entities. Comments, processing instructions and doctypes are skipped.
+ * @param text XML document
+ */
+export function parseXml(text: string): XmlElement {
+  let i = 0;
+  const fail = (message: string): never => {
+    const line = text.slice(0, i).split('\n').length;
+    throw new Error(`${message} at line ${line} of XML input`);
+  };
+  const skip = (terminator: string) => {
+    const end = text.indexOf(terminator, i);
+    if (end === -1) fail(`Missing ${terminator}`);
+    i = end + terminator.length;
+  };
+
+  const root: XmlElement = { name: '#document', attributes: {}, children: [], text: '' };
+  const stack: XmlElement[] = [root];
+  while (i < text.length) {
+    const current = stack[stack.length - 1];
+    if (text.startsWith('<!--', i)) {
+      skip('-->');
+    } else if (text.startsWith('<![CDATA[', i)) {
+      const end = text.indexOf(']]>', i);
+      if (end === -1) fail('Missing ]]>');
+      current.text += text.slice(i + 9, end);
+      i = end + 3;
+    } else if (text.startsWith('<?', i)) {
+      skip('?>');
+    } else if (text.startsWith('<!', i)) {
+      skip('>');
+    } else if (text.startsWith('</', i)) {
+      const end = text.indexOf('>', i);
+      if (end === -1) fail('Missing >');
+      const name = text.slice(i + 2, end).trim();
+      if (stack.length === 1 || name !== current.name) {
+        fail(`Unexpected closing tag </${name}>`);
+      }
+      stack.pop();
+      i = end + 1;
+    } else if (text[i] === '<') {
+      const tag = /<([\w:.-]+)/y;
+      tag.lastIndex = i;
+      const match = tag.exec(text);
+      if (!match) fail('Invalid tag');
+      const element: XmlElement = { name: match![1], attributes: {}, children: [], text: '' };
+      const attribute = /\s*([\w:.-]+)\s*=\s*("([^"]*)"|'([^']*)')/y;
+      attribute.lastIndex = tag.lastIndex;
+      let attr = attribute.exec(text);
+      let position = tag.lastIndex;
+      while (attr) {
+        element.attributes[attr[1]] = decodeEntities(attr[3] !== undefined ? attr[3] : attr[4]);
+        position = attribute.lastIndex;
+        attr = attribute.exec(text);
+      }
+      const close = /\s*(\/?)>/y;
+      close.lastIndex = position;
+      const end = close.exec(text);
+      if (!end) fail(`Invalid attributes in <${element.name}>`);
+      i = close.lastIndex;
+      current.children.push(element);
+      if (!end![1]) {
+        stack.push(element);
+      }
+    } else {
+      const end = text.indexOf('<', i);
+      const chunk = text.slice(i, end === -1 ? text.length : end);
+      if (stack.length === 1 && chunk.trim()) fail('Text outside the root element');
+      current.text += decodeEntities(chunk);
+      i = end === -1 ? text.length : end;
+    }
+  }
+  if (stack.length > 1) {
+    fail(`Unclosed element <${stack[stack.length - 1].name}>`);
+  }
+  if (root.children.length !== 1) {
+    fail('Expected a single root element');
+  }
+  return root.children[0];
+}
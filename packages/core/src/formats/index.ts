@@ -0,0 +1,6 @@
+export * from './FormatAdapter';
+export * from './DotFormat';
+export * from './MermaidFormat';
+export * from './GraphMLFormat';
+export * from './Xml';
+export * from './FormatRegistry';
@@ -1,4 +1,19 @@
+export * from './DataTypes';
 export * from './Port';
 export * from './Node';
 export * from './Edge';
-export * from './Graph'; 
+export * from './Geometry';
+export * from './Layout';
+export * from './QuadTree';
+export * from './Graph';
+export * from './Transaction';
+export * from './MutationHook';
+export * from './Subgraph';
+export * from './Diff';
+export * from './Merge';
+export * from './Migrations';
+export * from './GraphDataValidator';
+export * from './formats';
+export * from './Executor';
+export * from './NodeRegistry';
+export * from './Validation';
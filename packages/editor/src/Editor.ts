@@ -1,27 +1,74 @@
-import { Graph, GraphData, Edge, Node } from '@logic.js/core';
+import {
+  Graph,
+  GraphData,
+  GraphOptions,
+  Edge,
+  Node,
+  Port,
+  Diagnostic,
+  Bounds,
+  Point,
+  getPointsBounds,
+  isPointInBounds,
+  isPointInPolygon
+} from '@logic.js/core';
 import type { Plugin, HistoryAction } from './plugins';
+import { Viewport, ViewportOptions, ViewportState } from './Viewport';
 
+export interface EditorOptions extends GraphOptions {
+  viewport?: ViewportOptions;
+}
+
+export interface EditorSelection {
+  nodes: string[];
+  edges: string[];
+}
+
+// 'replace' selects only the given items, 'add' keeps the current selection,
+// 'toggle' flips each given item
+export type SelectionMode = 'replace' | 'add' | 'toggle';
+
+function sameItems(a: Set<string>, b: Set<string>): boolean {
+  return a.size === b.size && [...a].every(id => b.has(id));
+}
 
 // Extend GraphEvents type
 declare module '@logic.js/core' {
   interface GraphEvents {
     'history:change': [{ action: HistoryAction; canUndo: boolean; canRedo: boolean }];
-    'node:dragstart': [node: Node];
-    'node:dragend': [node: Node];
+    // The grabbed node and every node dragged along with it
+    'node:dragstart': [node: Node, nodes: Node[]];
+    'node:dragend': [node: Node, nodes: Node[]];
+    'connection:rejected': [sourcePortId: string, targetPortId: string, reason: string];
+    'validation:change': [diagnostics: Diagnostic[]];
+    // A composite node was opened; graph is its live body
+    'subgraph:open': [node: Node, graph: Graph];
+    'selection:changed': [selection: EditorSelection];
+    'viewport:changed': [state: ViewportState];
   }
 }
 
 export class Editor extends Graph {
   private isDragging: boolean = false;
   private dragNodeId: string | null = null;
+  private dragOrigins: Map<string, { x: number; y: number }> = new Map();  // Dragged node id -> start position
   private dragStartX: number = 0;
   private dragStartY: number = 0;
   private isPortConnecting: boolean = false;
   private connectStartPortId: string | null = null;
   private plugins: Map<string, Plugin> = new Map();
-
-  constructor(data: GraphData) {
-    super(data);
+  private selectedNodes: Set<string> = new Set();
+  private selectedEdges: Set<string> = new Set();
+  private viewport: Viewport;
+
+  constructor(data: GraphData, options: EditorOptions = {}) {
+    super(data, options);
+    this.viewport = new Viewport(options.viewport, state => this.emit('viewport:changed', state));
+
+    // Removed items leave the selection
+    this.on('node:removed', () => this.pruneSelection());
+    this.on('edge:removed', () => this.pruneSelection());
+    this.on('batch', () => this.pruneSelection());
   }
 
   public use(plugin: Plugin): Editor {
@@ -49,54 +96,105 @@ export class Editor extends Graph {
     return this.plugins.get(pluginName) as T | undefined;
   }
 
-  // Drag and drop related methods
+  // Viewport related methods
+  public getViewport(): Viewport {
+    return this.viewport;
+  }
+
+  public screenToWorld(point: Point): Point {
+    return this.viewport.screenToWorld(point);
+  }
+
+  public worldToScreen(point: Point): Point {
+    return this.viewport.worldToScreen(point);
+  }
+
+  /**
+   * Pan and zoom so every node is visible
+   * @returns False when there is nothing to fit
+   */
+  public fitToContent(padding?: number): boolean {
+    return this.fitNodes(this.getNodes(), padding);
+  }
+
+  /**
+   * Pan and zoom so every selected node is visible
+   * @returns False when no node is selected
+   */
+  public fitToSelection(padding?: number): boolean {
+    return this.fitNodes(this.getSelection().nodes.map(nodeId => this.getNode(nodeId)!), padding);
+  }
+
+  private fitNodes(nodes: Node[], padding?: number): boolean {
+    if (nodes.length === 0) return false;
+    const corners = nodes.flatMap(node => {
+      const { x, y, width, height } = node.getBounds();
+      return [{ x, y }, { x: x + width, y: y + height }];
+    });
+    this.viewport.fitBounds(getPointsBounds(corners), padding);
+    return true;
+  }
+
+  // Drag and drop related methods; pointer positions are in screen coordinates
   public startDrag(nodeId: string, x: number, y: number): void {
+    // Grabbing a selected node drags the whole selection along
+    const nodeIds = this.isNodeSelected(nodeId) ? [...this.selectedNodes] : [nodeId];
     this.dragNodeId = nodeId;
-    this.dragStartX = x;
-    this.dragStartY = y;
+    this.dragOrigins = new Map();
+    nodeIds.forEach(id => {
+      const node = this.getNode(id);
+      if (node) {
+        this.dragOrigins.set(id, node.getPosition());
+      }
+    });
+    const start = this.screenToWorld({ x, y });
+    this.dragStartX = start.x;
+    this.dragStartY = start.y;
     this.isDragging = true;
 
     const node = this.getNode(nodeId);
     if (node) {
-      this.emit('node:dragstart', node);
+      this.emit('node:dragstart', node, this.getDraggedNodes());
     }
   }
 
   public handleDrag(x: number, y: number): void {
     if (!this.isDragging || !this.dragNodeId) return;
 
-    const node = this.getNode(this.dragNodeId);
-    if (!node) return;
-
-    // Calculate relative displacement
-    const dx = x - this.dragStartX;
-    const dy = y - this.dragStartY;
-    const { x: currentX, y: currentY } = node.getPosition();
-    const newX = currentX + dx;
-    const newY = currentY + dy;
-
-    // Directly call setPosition, let Node class handle event triggering
-    node.setPosition(newX, newY);
-
-    // Update drag start point
-    this.dragStartX = x;
-    this.dragStartY = y;
+    // Every node keeps its offset from where the drag started, so a move a
+    // node:moving hook snapped or refused does not accumulate
+    const pointer = this.screenToWorld({ x, y });
+    const dx = pointer.x - this.dragStartX;
+    const dy = pointer.y - this.dragStartY;
+    this.dragOrigins.forEach((origin, nodeId) => {
+      const node = this.getNode(nodeId);
+      if (node) {
+        node.setPosition(origin.x + dx, origin.y + dy);
+      }
+    });
   }
 
   public endDrag(): void {
     if (this.isDragging && this.dragNodeId) {
       const node = this.getNode(this.dragNodeId);
       if (node) {
-        this.emit('node:dragend', node);
+        this.emit('node:dragend', node, this.getDraggedNodes());
       }
     }
 
     this.isDragging = false;
     this.dragNodeId = null;
+    this.dragOrigins = new Map();
     this.dragStartX = 0;
     this.dragStartY = 0;
   }
 
+  public getDraggedNodes(): Node[] {
+    return [...this.dragOrigins.keys()]
+      .map(nodeId => this.getNode(nodeId))
+      .filter((node): node is Node => node !== undefined);
+  }
+
   public getIsDragging(): boolean {
     return this.isDragging;
   }
@@ -105,6 +203,119 @@ export class Editor extends Graph {
     return this.dragNodeId;
   }
 
+  // Selection related methods
+  public getSelection(): EditorSelection {
+    return { nodes: [...this.selectedNodes], edges: [...this.selectedEdges] };
+  }
+
+  public isNodeSelected(nodeId: string): boolean {
+    return this.selectedNodes.has(nodeId);
+  }
+
+  public isEdgeSelected(edgeId: string): boolean {
+    return this.selectedEdges.has(edgeId);
+  }
+
+  /**
+   * Change the selection; unknown ids are ignored
+   */
+  public select(items: Partial<EditorSelection>, mode: SelectionMode = 'replace'): void {
+    const nodes = (items.nodes || []).filter(nodeId => this.getNode(nodeId));
+    const edges = (items.edges || []).filter(edgeId => this.getEdge(edgeId));
+    const previousNodes = this.selectedNodes;
+    const previousEdges = this.selectedEdges;
+
+    if (mode === 'replace') {
+      this.selectedNodes = new Set(nodes);
+      this.selectedEdges = new Set(edges);
+    } else {
+      this.selectedNodes = new Set(previousNodes);
+      this.selectedEdges = new Set(previousEdges);
+      const apply = (selected: Set<string>, id: string) => {
+        if (mode === 'toggle' && selected.has(id)) {
+          selected.delete(id);
+        } else {
+          selected.add(id);
+        }
+      };
+      nodes.forEach(nodeId => apply(this.selectedNodes, nodeId));
+      edges.forEach(edgeId => apply(this.selectedEdges, edgeId));
+    }
+
+    if (!sameItems(previousNodes, this.selectedNodes) || !sameItems(previousEdges, this.selectedEdges)) {
+      this.emit('selection:changed', this.getSelection());
+    }
+  }
+
+  public toggleSelection(items: Partial<EditorSelection>): void {
+    this.select(items, 'toggle');
+  }
+
+  public clearSelection(): void {
+    this.select({}, 'replace');
+  }
+
+  /**
+   * Select the nodes touching a rectangle and the edges with both ends inside it
+   */
+  public selectInBounds(bounds: Bounds, mode: SelectionMode = 'replace'): void {
+    this.select({
+      nodes: this.getNodesInBounds(bounds).map(node => node.getId()),
+      edges: this.getEdgesInBounds(bounds)
+        .filter(edge => {
+          const { start, end } = edge.getCurve();
+          return isPointInBounds(start, bounds) && isPointInBounds(end, bounds);
+        })
+        .map(edge => edge.getId())
+    }, mode);
+  }
+
+  /**
+   * Select the nodes whose center lies inside a free-form outline, and the
+   * edges with both ends inside it
+   */
+  public selectInPolygon(points: Point[], mode: SelectionMode = 'replace'): void {
+    if (points.length < 3) {
+      this.select({}, mode);
+      return;
+    }
+    const bounds = getPointsBounds(points);
+    this.select({
+      nodes: this.getNodesInBounds(bounds)
+        .filter(node => {
+          const { x, y, width, height } = node.getBounds();
+          return isPointInPolygon({ x: x + width / 2, y: y + height / 2 }, points);
+        })
+        .map(node => node.getId()),
+      edges: this.getEdgesInBounds(bounds)
+        .filter(edge => {
+          const { start, end } = edge.getCurve();
+          return isPointInPolygon(start, points) && isPointInPolygon(end, points);
+        })
+        .map(edge => edge.getId())
+    }, mode);
+  }
+
+  private pruneSelection(): void {
+    this.select({
+      nodes: [...this.selectedNodes],
+      edges: [...this.selectedEdges]
+    }, 'replace');
+  }
+
+  /**
+   * Open the body of a composite node for editing
+   * @returns The live inner graph, or undefined when the node is not composite
+   */
+  public openSubgraph(nodeId: string): Graph | undefined {
+    const node = this.getNode(nodeId);
+    const inner = this.enterSubgraph(nodeId);
+    if (node && inner) {
+      this.emit('subgraph:open', node, inner);
+    }
+    return inner;
+  }
+
   // Connection related methods
   public startConnection(portId: string): void {
     const port = this.getPort(portId);
@@ -115,9 +326,11 @@ export class Editor extends Graph {
     this.emit('connection:start');
   }
 
+  // Takes the pointer in screen coordinates and reports it in world coordinates
   public updateConnection(x: number, y: number): void {
     if (!this.isPortConnecting || !this.connectStartPortId) return;
-    this.emit('connection:update', x, y);
+    const pointer = this.screenToWorld({ x, y });
+    this.emit('connection:update', pointer.x, pointer.y);
   }
 
   public endConnection(portId: string): Edge | undefined {
@@ -128,11 +341,17 @@ export class Editor extends Graph {
 
     if (!sourcePort || !targetPort) return undefined;
 
-    // Check if port types match
-    if (sourcePort.getType() === targetPort.getType()) return undefined;
-
-    // Create new edge
+    // The graph checks the connection rules and edge:adding hooks
+    let reason = 'Connection not allowed';
+    const onRejected = (_source: Port, _target: Port, rejection: string) => {
+      reason = rejection;
+    };
+    this.on('edge:rejected', onRejected);
     const edge = this.addEdge(sourcePort, targetPort);
+    this.off('edge:rejected', onRejected);
+    if (!edge) {
+      this.emit('connection:rejected', sourcePort.getId(), targetPort.getId(), reason);
+    }
 
     // Reset connection state
     this.isPortConnecting = false;
@@ -164,6 +383,8 @@ export class Editor extends Graph {
       }
     });
     this.plugins.clear();
+    this.selectedNodes.clear();
+    this.selectedEdges.clear();
 
     // Clear graph data
     this.nodes.clear();
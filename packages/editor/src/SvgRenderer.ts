@@ -1,18 +1,40 @@
 import { Editor } from './Editor';
-import { Node, Edge, Port } from '@logic.js/core';
+import {
+  Node,
+  Edge,
+  Port,
+  Diagnostic,
+  GraphChange,
+  CubicBezier,
+  NodeLayout,
+  Point,
+  getEdgeCurve,
+  getPointsBounds
+} from '@logic.js/core';
+import { EditorSelection } from './Editor';
+import { ViewportState } from './Viewport';
 
 import { PerformanceMonitor } from './performance/PerformanceMonitor';
 import { VirtualNode } from './vdom/VirtualNode';
 
 export class SvgRenderer {
   private svg: SVGElement;
+  private world: SVGElement;  // Holds everything drawn in world coordinates
   private editor: Editor;
   private nodeElements: Map<string, SVGElement> = new Map();
   private edgeElements: Map<string, SVGElement> = new Map();
   private portElements: Map<string, SVGElement> = new Map();
+  private portNodeIds: Map<string, string> = new Map();  // Port -> node that drew it
   private updateQueue: Set<string> = new Set();
   private isUpdating: boolean = false;
+  // Screen position the background is being dragged from while panning
+  private panStart: Point | null = null;
+  private spacePressed = false;
+  // Marquee or lasso being drawn on the background
+  private selectionArea: { points: Point[]; lasso: boolean; additive: boolean; element: SVGElement } | null = null;
   private performanceMonitor: PerformanceMonitor = PerformanceMonitor.getInstance();
+  // Worst diagnostic severity per node, kept so redrawn nodes are outlined again
+  private nodeSeverities: Map<string, string> = new Map();
 
   constructor(container: HTMLElement, editor: Editor) {
     this.editor = editor;
@@ -20,7 +42,13 @@ export class SvgRenderer {
     this.svg.setAttribute('width', '100%');
     this.svg.setAttribute('height', '100%');
     container.appendChild(this.svg);
-    this.drawGrid();
+    this.world = document.createElementNS('http://www.w3.org/2000/svg', 'g');
+    this.world.setAttribute('id', 'svg-viewport');
+    this.svg.appendChild(this.world);
+    this.handleResize();
+    window.addEventListener('resize', this.handleResize);
+    window.addEventListener('keydown', this.handleKey);
+    window.addEventListener('keyup', this.handleKey);
 
     // Set up event listeners
     this.setupDragEvents();
@@ -43,10 +71,36 @@ export class SvgRenderer {
       this.removeNode(nodeId);
     });
 
-    // Listen for node move event
-    this.editor.on('node:moving', this.handleNodeMoving.bind(this));
+    // Listen for node move event; node:moving may still be canceled, so only
+    // completed moves are drawn
     this.editor.on('node:moved', this.handleNodeMoved.bind(this));
 
+    // Port and size changes move the port anchors, so the node and its edges are redrawn
+    this.editor.on('node:resized', (node: Node) => {
+      this.redraw([node.getId()]);
+    });
+
+    this.editor.on('port:added', (port: Port) => {
+      this.redraw([port.getNodeId()]);
+    });
+
+    this.editor.on('port:changed', (port: Port) => {
+      this.redraw([port.getNodeId()]);
+    });
+
+    // The port is already gone from the graph; the renderer remembers which node held it
+    this.editor.on('port:removed', (portId: string) => {
+      const portElement = this.portElements.get(portId);
+      const nodeId = this.portNodeIds.get(portId);
+      if (!portElement) return;
+      portElement.remove();
+      this.portElements.delete(portId);
+      this.portNodeIds.delete(portId);
+      if (nodeId) {
+        this.redraw([nodeId]);
+      }
+    });
+
     // Listen for edge add event
     this.editor.on('edge:added', (edge: Edge) => {
       this.renderEdge(edge);
@@ -81,41 +135,220 @@ export class SvgRenderer {
     this.editor.on('connection:end', () => {
       this.removeTempLine();
     });
+
+    // Listen for rejected connection event
+    this.editor.on('connection:rejected', (sourcePortId: string, targetPortId: string, reason: string) => {
+      this.showConnectionError(targetPortId, reason);
+    });
+
+    // Listen for transactions
+    this.editor.on('batch', (changes: GraphChange[]) => {
+      this.applyBatch(changes);
+    });
+
+    // Listen for selection changes
+    this.editor.on('selection:changed', (selection: EditorSelection) => {
+      this.renderSelection(selection);
+    });
+
+    // Listen for pan and zoom
+    this.editor.on('viewport:changed', (state: ViewportState) => {
+      this.applyViewport(state);
+    });
+
+    // Listen for validation results
+    this.editor.on('validation:change', (diagnostics: Diagnostic[]) => {
+      this.highlightDiagnostics(diagnostics);
+    });
+  }
+
+  // Outline nodes that have validation errors or warnings
+  private highlightDiagnostics(diagnostics: Diagnostic[]): void {
+    const severities = new Map<string, string>();
+    this.nodeSeverities = severities;
+    diagnostics.forEach(diagnostic => {
+      (diagnostic.nodeIds || []).forEach(nodeId => {
+        if (diagnostic.severity === 'error' || (diagnostic.severity === 'warning' && !severities.has(nodeId))) {
+          severities.set(nodeId, diagnostic.severity);
+        }
+      });
+    });
+    this.nodeElements.forEach((element, nodeId) => this.renderNodeSeverity(element, nodeId));
+  }
+
+  private renderNodeSeverity(element: SVGElement, nodeId: string): void {
+    // The selection outline is a rect too, so pick the body by its class
+    const rect = element.querySelector('.node-body');
+    if (!rect) return;
+    const severity = this.nodeSeverities.get(nodeId);
+    rect.setAttribute('stroke', severity === 'error' ? '#ff5252' : severity === 'warning' ? '#ffab40' : '#444');
   }
 
   private setupDragEvents(): void {
+    // Dragging the background with the middle button or while Space is held pans;
+    // otherwise it starts a marquee, or a lasso while Alt is held
+    this.svg.addEventListener('mousedown', (e: MouseEvent) => {
+      const target = e.target as SVGElement;
+      if (target !== this.svg && !target.closest('#svg-bg-grid')) return;
+      const pointer = this.getPointerPosition(e);
+      if (e.button === 1 || this.spacePressed) {
+        e.preventDefault();
+        this.panStart = pointer;
+      } else if (e.button === 0) {
+        this.startSelectionArea(this.editor.screenToWorld(pointer), e.altKey, e.shiftKey);
+      }
+    });
+
     // Only handle mouse move and release events on SVG root element
     this.svg.addEventListener('mousemove', (e: MouseEvent) => {
-      if (this.editor.getIsDragging()) {
-        const rect = this.svg.getBoundingClientRect();
-        const x = e.clientX - rect.left;
-        const y = e.clientY - rect.top;
+      const { x, y } = this.getPointerPosition(e);
+      if (this.panStart) {
+        this.editor.getViewport().panBy(x - this.panStart.x, y - this.panStart.y);
+        this.panStart = { x, y };
+      } else if (this.editor.getIsDragging()) {
         this.editor.handleDrag(x, y);
       } else if (this.editor.getIsPortConnecting()) {
-        const rect = this.svg.getBoundingClientRect();
-        const x = e.clientX - rect.left;
-        const y = e.clientY - rect.top;
         this.editor.updateConnection(x, y);
+      } else if (this.selectionArea) {
+        this.updateSelectionArea(this.editor.screenToWorld({ x, y }));
       }
     });
 
+    // Scrolling pans; with Ctrl or Cmd, and for pinch gestures, it zooms to the cursor
+    this.svg.addEventListener('wheel', (e: WheelEvent) => {
+      e.preventDefault();
+      const viewport = this.editor.getViewport();
+      if (e.ctrlKey || e.metaKey) {
+        viewport.zoomBy(Math.exp(-e.deltaY * 0.002), this.getPointerPosition(e));
+      } else {
+        viewport.panBy(-e.deltaX, -e.deltaY);
+      }
+    }, { passive: false });
+
     this.svg.addEventListener('mouseup', () => {
+      this.panStart = null;
       if (this.editor.getIsDragging()) {
         this.editor.endDrag();
       } else if (this.editor.getIsPortConnecting()) {
         this.editor.cancelConnection();
+      } else if (this.selectionArea) {
+        this.endSelectionArea();
       }
     });
 
     this.svg.addEventListener('mouseleave', () => {
+      this.panStart = null;
       if (this.editor.getIsDragging()) {
         this.editor.endDrag();
       } else if (this.editor.getIsPortConnecting()) {
         this.editor.cancelConnection();
+      } else if (this.selectionArea) {
+        this.endSelectionArea();
       }
     });
   }
 
+  // Pointer position relative to the SVG element, in screen coordinates
+  private getPointerPosition(e: MouseEvent): Point {
+    const rect = this.svg.getBoundingClientRect();
+    return { x: e.clientX - rect.left, y: e.clientY - rect.top };
+  }
+
+  private handleResize = (): void => {
+    this.editor.getViewport().setSize(this.svg.clientWidth || 2000, this.svg.clientHeight || 1200);
+    this.drawGrid();
+  };
+
+  private handleKey = (e: KeyboardEvent): void => {
+    if (e.code === 'Space') {
+      this.spacePressed = e.type === 'keydown';
+    }
+  };
+
+  private applyViewport({ x, y, zoom }: ViewportState): void {
+    this.world.setAttribute('transform', `translate(${x}, ${y}) scale(${zoom})`);
+    this.drawGrid();
+  }
+
+  private startSelectionArea(point: Point, lasso: boolean, additive: boolean): void {
+    const element = document.createElementNS('http://www.w3.org/2000/svg', lasso ? 'polygon' : 'rect');
+    element.setAttribute('fill', 'rgba(79, 195, 247, 0.12)');
+    element.setAttribute('stroke', '#4fc3f7');
+    element.setAttribute('stroke-width', '1');
+    element.setAttribute('stroke-dasharray', '4,3');
+    element.setAttribute('vector-effect', 'non-scaling-stroke');
+    element.setAttribute('style', 'pointer-events: none;');
+    this.world.appendChild(element);
+    this.selectionArea = { points: [point], lasso, additive, element };
+    this.updateSelectionArea(point);
+  }
+
+  private updateSelectionArea(point: Point): void {
+    const area = this.selectionArea;
+    if (!area) return;
+    if (area.lasso) {
+      area.points.push(point);
+      area.element.setAttribute('points', area.points.map(({ x, y }) => `${x},${y}`).join(' '));
+      return;
+    }
+    // A marquee only needs the corner it started from and the current one
+    area.points = [area.points[0], point];
+    const { x, y, width, height } = getPointsBounds(area.points);
+    area.element.setAttribute('x', x.toString());
+    area.element.setAttribute('y', y.toString());
+    area.element.setAttribute('width', width.toString());
+    area.element.setAttribute('height', height.toString());
+  }
+
+  private endSelectionArea(): void {
+    const area = this.selectionArea;
+    if (!area) return;
+    this.selectionArea = null;
+    area.element.remove();
+    const mode = area.additive ? 'add' : 'replace';
+    if (area.lasso) {
+      this.editor.selectInPolygon(area.points, mode);
+    } else {
+      this.editor.selectInBounds(getPointsBounds(area.points), mode);
+    }
+  }
+
+  // Outline selected nodes and thicken selected edges
+  private renderSelection(selection: EditorSelection): void {
+    const nodes = new Set(selection.nodes);
+    this.nodeElements.forEach((element, nodeId) => this.renderNodeSelection(element, nodeId, nodes.has(nodeId)));
+    this.edgeElements.forEach((element, edgeId) => {
+      element.setAttribute('stroke-width', this.getEdgeStrokeWidth(edgeId));
+    });
+  }
+
+  private renderNodeSelection(element: SVGElement, nodeId: string, selected: boolean): void {
+    const outline = element.querySelector('.selection-outline');
+    const node = this.editor.getNode(nodeId);
+    if (!selected || !node) {
+      if (outline) outline.remove();
+      return;
+    }
+    if (outline) return;
+    const { width, height } = node.getSize();
+    const rect = document.createElementNS('http://www.w3.org/2000/svg', 'rect');
+    rect.setAttribute('class', 'selection-outline');
+    rect.setAttribute('x', '-4');
+    rect.setAttribute('y', '-4');
+    rect.setAttribute('width', (width + 8).toString());
+    rect.setAttribute('height', (height + 8).toString());
+    rect.setAttribute('rx', '18');
+    rect.setAttribute('fill', 'none');
+    rect.setAttribute('stroke', '#4fc3f7');
+    rect.setAttribute('stroke-width', '2');
+    rect.setAttribute('style', 'pointer-events: none;');
+    element.insertBefore(rect, element.firstChild);
+  }
+
+  private getEdgeStrokeWidth(edgeId: string): string {
+    return this.editor.isEdgeSelected(edgeId) ? '5.5' : '3.5';
+  }
+
   private startTempLine(): void {
     // Create temporary connection element
     const tempLine = document.createElementNS('http://www.w3.org/2000/svg', 'path');
@@ -124,7 +357,7 @@ export class SvgRenderer {
     tempLine.setAttribute('fill', 'none');
     tempLine.setAttribute('stroke-dasharray', '5,5');
     tempLine.id = 'temp-line';
-    this.svg.appendChild(tempLine);
+    this.world.appendChild(tempLine);
   }
 
   private updateTempLine(x: number, y: number): void {
@@ -132,7 +365,7 @@ export class SvgRenderer {
     if (!tempLine || !(tempLine instanceof SVGPathElement)) return;
     const startPortId = this.editor.getConnectionStartPortId();
     if (!startPortId) return;
-    const start = this.getPortCircleCenter(startPortId);
+    const start = this.getPortCenter(startPortId);
     if (!start) return;
     // Color matches port
     const port = this.editor.getPort(startPortId);
@@ -140,8 +373,7 @@ export class SvgRenderer {
     tempLine.setAttribute('stroke', color);
     tempLine.setAttribute('stroke-width', '3.5');
     tempLine.setAttribute('filter', 'drop-shadow(0 0 4px rgba(0,0,0,0.4))');
-    const dx = x - start.x;
-    const path = `M ${start.x} ${start.y} C ${start.x + dx * 0.5} ${start.y}, ${x - dx * 0.5} ${y}, ${x} ${y}`;
+    const path = this.curvePath(getEdgeCurve(start, { x, y }));
     tempLine.setAttribute('d', path);
   }
 
@@ -152,6 +384,22 @@ export class SvgRenderer {
     }
   }
 
+  // Show why a connection was refused next to the target port
+  private showConnectionError(portId: string, reason: string): void {
+    const position = this.getPortCenter(portId);
+    if (!position) return;
+    const text = document.createElementNS('http://www.w3.org/2000/svg', 'text');
+    text.setAttribute('x', (position.x + 12).toString());
+    text.setAttribute('y', (position.y - 12).toString());
+    text.setAttribute('font-size', '13');
+    text.setAttribute('font-family', 'Arial, Helvetica, sans-serif');
+    text.setAttribute('fill', '#ff5252');
+    text.setAttribute('style', 'user-select: none; pointer-events: none;');
+    text.textContent = reason;
+    this.world.appendChild(text);
+    setTimeout(() => text.remove(), 2000);
+  }
+
   private render(): void {
     this.renderNodes();
     this.renderEdges();
@@ -168,74 +416,62 @@ export class SvgRenderer {
   }
 
   private renderNode(node: Node): void {
-    const nodeElement = this.createNodeElement(node);
+    const layout = this.editor.getLayout().measure(node, node.getSize());
+    const nodeElement = this.createNodeElement(node, layout);
     this.nodeElements.set(node.getId(), nodeElement);
-    this.svg.appendChild(nodeElement);
-    this.renderPorts(node);
+    this.world.appendChild(nodeElement);
+    this.renderPorts(node, layout);
+    this.renderNodeSelection(nodeElement, node.getId(), this.editor.isNodeSelected(node.getId()));
+    this.renderNodeSeverity(nodeElement, node.getId());
   }
 
   private renderEdge(edge: Edge): void {
     const edgeElement = this.createEdgeElement(edge);
     this.edgeElements.set(edge.getId(), edgeElement);
-    this.svg.appendChild(edgeElement);
+    this.world.appendChild(edgeElement);
   }
 
-  private renderPorts(node: Node): void {
-    const inputs = node.getInputs();
-    const outputs = node.getOutputs();
+  private renderPorts(node: Node, layout: NodeLayout): void {
     const nodeElement = this.nodeElements.get(node.getId());
     if (!nodeElement) return;
-    const portSpacing = 40;
-    const minHeight = 100;
-    const padding = 32;
-    const portCount = Math.max(inputs.length, outputs.length);
-    const height = Math.max(minHeight, portCount * portSpacing + padding);
-    const inputsStartY = (height - (inputs.length - 1) * portSpacing) / 2;
-    inputs.forEach((port, index) => {
-      const y = inputsStartY + index * portSpacing;
-      const portElement = this.createPortElement(port, 'input', y);
-      this.portElements.set(port.getId(), portElement);
-      nodeElement.appendChild(portElement);
-    });
-    const outputsStartY = (height - (outputs.length - 1) * portSpacing) / 2;
-    outputs.forEach((port, index) => {
-      const y = outputsStartY + index * portSpacing;
-      const portElement = this.createPortElement(port, 'output', y);
+    [...node.getInputs(), ...node.getOutputs()].forEach(port => {
+      const anchor = layout.ports.get(port.getId());
+      if (!anchor) return;
+      const portElement = this.createPortElement(port, anchor);
       this.portElements.set(port.getId(), portElement);
+      this.portNodeIds.set(port.getId(), node.getId());
       nodeElement.appendChild(portElement);
     });
   }
 
-  private createNodeElement(node: Node): SVGElement {
+  private createNodeElement(node: Node, layout: NodeLayout): SVGElement {
     const nodeId = node.getId();
     const nodeElement = new VirtualNode('g', `node-${nodeId}`);
     const { x, y } = node.getPosition();
     nodeElement.setAttribute('transform', `translate(${x}, ${y})`);
     nodeElement.setAttribute('id', `node-${nodeId}`);
-    // Style parameters
-    const portCount = Math.max(node.getInputs().length, node.getOutputs().length);
-    const portSpacing = 40;
-    const minHeight = 100;
-    const padding = 32;
-    const width = 220;
-    const titlebarHeight = 32;
-    const height = Math.max(minHeight, portCount * portSpacing + padding + titlebarHeight);
+    const { title, body } = layout;
     // Node body
     const rect = new VirtualNode('rect', `${nodeId}-rect`);
-    rect.setAttribute('x', '0');
-    rect.setAttribute('y', titlebarHeight.toString());
-    rect.setAttribute('width', width.toString());
-    rect.setAttribute('height', (height - titlebarHeight).toString());
+    rect.setAttribute('class', 'node-body');
+    rect.setAttribute('x', body.x.toString());
+    rect.setAttribute('y', body.y.toString());
+    rect.setAttribute('width', body.width.toString());
+    rect.setAttribute('height', body.height.toString());
     rect.setAttribute('rx', '16');
     rect.setAttribute('fill', '#2c2f36');
     rect.setAttribute('stroke', '#444');
     rect.setAttribute('stroke-width', '2.5');
     rect.setAttribute('filter', 'drop-shadow(0 2px 8px rgba(0,0,0,0.4))');
+    // Composite nodes get a dashed border
+    if (node.isComposite()) {
+      rect.setAttribute('stroke-dasharray', '8,4');
+    }
     nodeElement.appendChild(rect);
     // Node title
     const text = new VirtualNode('text', `${nodeId}-text`);
-    text.setAttribute('x', (width / 2).toString());
-    text.setAttribute('y', (titlebarHeight / 2 + 2).toString());
+    text.setAttribute('x', (title.x + title.width / 2).toString());
+    text.setAttribute('y', (title.y + title.height / 2 + 2).toString());
     text.setAttribute('text-anchor', 'middle');
     text.setAttribute('dominant-baseline', 'middle');
     text.setAttribute('font-size', '17');
@@ -243,29 +479,37 @@ export class SvgRenderer {
     text.setAttribute('font-weight', 'bold');
     text.setAttribute('fill', '#fff');
     text.setAttribute('style', 'user-select: none;');
-    text.textContent = node.getName();
+    text.textContent = node.isComposite() ? `⧉ ${node.getName()}` : node.getName();
     nodeElement.appendChild(text);
     nodeElement.update();
     const element = nodeElement.getElement() as SVGElement;
+    if (node.isComposite()) {
+      element.addEventListener('dblclick', () => {
+        this.editor.openSubgraph(node.getId());
+      });
+    }
     element.addEventListener('mousedown', (e: MouseEvent) => {
       if ((e.target as SVGElement).closest('[id^="port-"]')) return;
-      const rect = this.svg.getBoundingClientRect();
-      const x = e.clientX - rect.left;
-      const y = e.clientY - rect.top;
+      // Shift-click adds or removes the node; a plain click keeps a selection the node is part of
+      if (e.shiftKey) {
+        this.editor.toggleSelection({ nodes: [nodeId] });
+        return;
+      }
+      if (!this.editor.isNodeSelected(nodeId)) {
+        this.editor.select({ nodes: [nodeId] });
+      }
+      const { x, y } = this.getPointerPosition(e);
       this.editor.startDrag(nodeId, x, y);
     });
     return element;
   }
 
-  private createPortElement(port: Port, type: 'input' | 'output', y: number): SVGElement {
+  private createPortElement(port: Port, anchor: { x: number, y: number }): SVGElement {
+    const type = port.getType();
     const portElement = new VirtualNode('g', `port-${port.getId()}`);
     portElement.setAttribute('id', `port-${port.getId()}`);
-    // Port is inside node, y needs to add titlebarHeight
-    const titlebarHeight = 32;
-    const width = 220;
-    const portY = y + titlebarHeight;
-    const portX = type === 'input' ? 16 : width - 16;
-    portElement.setAttribute('transform', `translate(${portX}, ${portY})`);
+    // Anchor is relative to the node's top-left corner
+    portElement.setAttribute('transform', `translate(${anchor.x}, ${anchor.y})`);
     // Port color
     const color = type === 'input' ? '#ffd600' : '#b388ff';
     const colorDark = type === 'input' ? '#c7a500' : '#7c43bd';
@@ -273,7 +517,7 @@ export class SvgRenderer {
     const circle = new VirtualNode('circle', `${port.getId()}-circle`);
     circle.setAttribute('cx', '0');
     circle.setAttribute('cy', '0');
-    circle.setAttribute('r', '6');
+    circle.setAttribute('r', this.editor.getLayout().getStyle().portRadius.toString());
     circle.setAttribute('fill', color);
     circle.setAttribute('stroke', colorDark);
     circle.setAttribute('stroke-width', '2');
@@ -329,18 +573,21 @@ export class SvgRenderer {
     // Line color matches port
     const color = edge.getSourcePort().getType() === 'input' ? '#ffd600' : '#b388ff';
     edgeElement.setAttribute('stroke', color);
-    edgeElement.setAttribute('stroke-width', '3.5');
+    edgeElement.setAttribute('stroke-width', this.getEdgeStrokeWidth(edge.getId()));
     edgeElement.setAttribute('fill', 'none');
     edgeElement.setAttribute('filter', 'drop-shadow(0 0 4px rgba(0,0,0,0.4))');
-    const source = this.getPortCircleCenter(edge.getSourcePort().getId());
-    const target = this.getPortCircleCenter(edge.getTargetPort().getId());
-    if (source && target) {
-      const dx = target.x - source.x;
-      const path = `M ${source.x} ${source.y} C ${source.x + dx * 0.5} ${source.y}, ${target.x - dx * 0.5} ${target.y}, ${target.x} ${target.y}`;
-      edgeElement.setAttribute('d', path);
-    }
+    edgeElement.setAttribute('d', this.curvePath(edge.getCurve()));
     edgeElement.update();
-    return edgeElement.getElement() as SVGElement;
+    const element = edgeElement.getElement() as SVGElement;
+    element.addEventListener('mousedown', (e: MouseEvent) => {
+      e.stopPropagation();
+      if (e.shiftKey) {
+        this.editor.toggleSelection({ edges: [edge.getId()] });
+      } else {
+        this.editor.select({ edges: [edge.getId()] });
+      }
+    });
+    return element;
   }
 
   private removeNode(nodeId: string): void {
@@ -354,6 +601,7 @@ export class SvgRenderer {
           if (portElement) {
             portElement.remove();
             this.portElements.delete(port.getId());
+            this.portNodeIds.delete(port.getId());
           }
         });
         node.getOutputs().forEach(port => {
@@ -361,6 +609,7 @@ export class SvgRenderer {
           if (portElement) {
             portElement.remove();
             this.portElements.delete(port.getId());
+            this.portNodeIds.delete(port.getId());
           }
         });
       }
@@ -379,37 +628,57 @@ export class SvgRenderer {
     }
   }
 
-  private updateNodePosition(node: Node): void {
-    const nodeElement = this.nodeElements.get(node.getId());
-    if (nodeElement) {
-      const { x, y } = node.getPosition();
-      nodeElement.setAttribute('transform', `translate(${x}, ${y})`);
+  // Redraw everything a transaction touched in one pass
+  private applyBatch(changes: GraphChange[]): void {
+    const nodeIds = new Set<string>();
+    const edgeIds = new Set<string>();
+    changes.forEach(change => {
+      if ('nodeId' in change) {
+        nodeIds.add(change.nodeId);
+      } else if ('node' in change) {
+        nodeIds.add(change.node.id);
+      } else if ('port' in change) {
+        nodeIds.add(change.port.nodeId);
+      } else {
+        edgeIds.add(change.edge.id);
+      }
+    });
+    this.redraw(Array.from(nodeIds), Array.from(edgeIds));
+  }
 
-      // Update all connections related to this node
-      this.updateConnectedEdges(node);
-    }
+  // Draw nodes again together with their edges and any other given edges
+  private redraw(nodeIds: string[], edgeIds: string[] = []): void {
+    const edges = new Set(edgeIds);
+    nodeIds.forEach(nodeId => {
+      this.removeNode(nodeId);
+      const node = this.editor.getNode(nodeId);
+      if (node) {
+        this.renderNode(node);
+      }
+    });
+
+    // Edges of redrawn nodes must follow their ports
+    nodeIds.forEach(nodeId => {
+      this.editor.getEdgesOfNode(nodeId).forEach(edge => edges.add(edge.getId()));
+    });
+    edges.forEach(edgeId => {
+      this.removeEdge(edgeId);
+      const edge = this.editor.getEdge(edgeId);
+      if (edge) {
+        this.renderEdge(edge);
+      }
+    });
   }
 
+  // Queue the node's edges; they are redrawn once on the next frame, however
+  // many of their nodes move before it
   private updateConnectedEdges(node: Node): void {
     this.performanceMonitor.start('updateConnectedEdges');
 
-    requestAnimationFrame(() => {
-      const nodePorts = [...node.getInputs(), ...node.getOutputs()];
-      const edgesToUpdate = this.editor.getEdges().filter(edge => {
-        const sourcePort = edge.getSourcePort();
-        const targetPort = edge.getTargetPort();
-        return nodePorts.some(port =>
-          port.getId() === sourcePort.getId() ||
-          port.getId() === targetPort.getId()
-        );
-      });
-
-      edgesToUpdate.forEach(edge => {
-        this.updateQueue.add(edge.getId());
-      });
-
-      this.processUpdateQueue();
+    this.editor.getEdgesOfNode(node.getId()).forEach(edge => {
+      this.updateQueue.add(edge.getId());
     });
+    this.processUpdateQueue();
 
     this.performanceMonitor.end('updateConnectedEdges');
   }
@@ -420,7 +689,7 @@ export class SvgRenderer {
 
     requestAnimationFrame(() => {
       this.updateQueue.forEach(edgeId => {
-        const edge = this.editor.getEdges().find(e => e.getId() === edgeId);
+        const edge = this.editor.getEdge(edgeId);
         if (edge) {
           this.updateEdge(edge);
         }
@@ -437,37 +706,13 @@ export class SvgRenderer {
     if (edgeElement) {
       const color = edge.getSourcePort().getType() === 'input' ? '#ffd600' : '#b388ff';
       edgeElement.setAttribute('stroke', color);
-      edgeElement.setAttribute('stroke-width', '3.5');
+      edgeElement.setAttribute('stroke-width', this.getEdgeStrokeWidth(edge.getId()));
       edgeElement.setAttribute('filter', 'drop-shadow(0 0 4px rgba(0,0,0,0.4))');
-      const source = this.getPortCircleCenter(edge.getSourcePort().getId());
-      const target = this.getPortCircleCenter(edge.getTargetPort().getId());
-      if (source && target) {
-        const dx = target.x - source.x;
-        const path = `M ${source.x} ${source.y} C ${source.x + dx * 0.5} ${source.y}, ${target.x - dx * 0.5} ${target.y}, ${target.x} ${target.y}`;
-        edgeElement.setAttribute('d', path);
-      }
+      edgeElement.setAttribute('d', this.curvePath(edge.getCurve()));
     }
     this.performanceMonitor.end('updateEdge');
   }
 
-  private getPortAbsolutePosition(nodePos: { x: number, y: number }, portElement: SVGElement, type: 'input' | 'output'): { x: number, y: number } {
-    // g's transform: translate(0, y)
-    const transform = portElement.getAttribute('transform');
-    let offsetY = 0;
-    if (transform) {
-      const match = transform.match(/translate\(0,\s*([\d.-]+)\)/);
-      if (match) offsetY = parseFloat(match[1]);
-    }
-    // Circle center coordinates
-    const circle = portElement.querySelector('circle');
-    const cx = circle ? parseFloat(circle.getAttribute('cx') || '0') : 0;
-    // cy is always 0
-    return {
-      x: nodePos.x + cx,
-      y: nodePos.y + offsetY
-    };
-  }
-
   public update(): void {
     // Clear existing elements
     this.nodeElements.forEach(element => element.remove());
@@ -477,6 +722,7 @@ export class SvgRenderer {
     this.nodeElements.clear();
     this.edgeElements.clear();
     this.portElements.clear();
+    this.portNodeIds.clear();
 
     // Re-render
     this.render();
@@ -487,48 +733,35 @@ export class SvgRenderer {
   }
 
   public destroy() {
+    window.removeEventListener('resize', this.handleResize);
+    window.removeEventListener('keydown', this.handleKey);
+    window.removeEventListener('keyup', this.handleKey);
     // Clean up resources
     this.nodeElements.clear();
     this.edgeElements.clear();
     this.portElements.clear();
+    this.portNodeIds.clear();
+    this.nodeSeverities.clear();
     this.updateQueue.clear();
   }
 
-  private handleNodeMoving(node: Node, x: number, y: number): void {
-    const nodeElement = this.svg.querySelector(`#node-${node.getId()}`);
+  private handleNodeMoved(node: Node, x: number, y: number): void {
+    const nodeElement = this.nodeElements.get(node.getId());
     if (nodeElement) {
       nodeElement.setAttribute('transform', `translate(${x}, ${y})`);
-      // Update all edges related to this node
-      const edges = this.editor.getEdges();
-      edges.forEach(edge => {
-        if (edge.getSourcePort().getNodeId() === node.getId() || edge.getTargetPort().getNodeId() === node.getId()) {
-          this.updateEdge(edge);
-        }
-      });
     }
+    this.updateConnectedEdges(node);
   }
 
-  private handleNodeMoved(node: Node, x: number, y: number): void {
-    // Update all edges related to this node
-    const edges = this.editor.getEdges();
-    edges.forEach(edge => {
-      if (edge.getSourcePort().getNodeId() === node.getId() || edge.getTargetPort().getNodeId() === node.getId()) {
-        this.updateEdge(edge);
-      }
-    });
+  private curvePath({ start, control1, control2, end }: CubicBezier): string {
+    return `M ${start.x} ${start.y} C ${control1.x} ${control1.y}, ${control2.x} ${control2.y}, ${end.x} ${end.y}`;
   }
 
-  private getPortCircleCenter(portId: string): { x: number, y: number } | null {
-    const portGroup = this.portElements.get(portId);
-    if (!portGroup) return null;
-    const circle = portGroup.querySelector('circle');
-    if (!circle) return null;
-    const circleRect = circle.getBoundingClientRect();
-    const svgRect = this.svg.getBoundingClientRect();
-    return {
-      x: circleRect.left + circleRect.width / 2 - svgRect.left,
-      y: circleRect.top + circleRect.height / 2 - svgRect.top
-    };
+  // Port anchors come from the graph layout, the same points the spatial index uses
+  private getPortCenter(portId: string): { x: number, y: number } | null {
+    const port = this.editor.getPort(portId);
+    const node = this.editor.getNodeOfPort(portId);
+    return port && node ? port.getPosition(node) : null;
   }
 
   // Draw grid background
@@ -538,10 +771,15 @@ export class SvgRenderer {
     if (oldGrid) oldGrid.remove();
     const grid = document.createElementNS('http://www.w3.org/2000/svg', 'g');
     grid.setAttribute('id', 'svg-bg-grid');
-    const gridSize = 32;
-    const width = this.svg.clientWidth || 2000;
-    const height = this.svg.clientHeight || 1200;
-    for (let x = 0; x < width; x += gridSize) {
+    // Lines are drawn in screen space, lined up with the world grid under the viewport
+    const viewport = this.editor.getViewport();
+    const { x: panX, y: panY, zoom } = viewport.getState();
+    const { width, height } = viewport.getSize();
+    let gridSize = 32 * zoom;
+    while (gridSize < 8) {
+      gridSize *= 2;  // Keep lines apart when zoomed far out
+    }
+    for (let x = ((panX % gridSize) + gridSize) % gridSize; x < width; x += gridSize) {
       const line = document.createElementNS('http://www.w3.org/2000/svg', 'line');
       line.setAttribute('x1', x.toString());
       line.setAttribute('y1', '0');
@@ -551,7 +789,7 @@ export class SvgRenderer {
       line.setAttribute('stroke-width', '1');
       grid.appendChild(line);
     }
-    for (let y = 0; y < height; y += gridSize) {
+    for (let y = ((panY % gridSize) + gridSize) % gridSize; y < height; y += gridSize) {
       const line = document.createElementNS('http://www.w3.org/2000/svg', 'line');
       line.setAttribute('x1', '0');
       line.setAttribute('y1', y.toString());
@@ -0,0 +1,120 @@
+import { Bounds, Point } from '@logic.js/core';
+
+/**
+ * Pan and zoom: a world point p is drawn at p * zoom + (x, y) on screen
+ */
+export interface ViewportState {
+  x: number;
+  y: number;
+  zoom: number;
+}
+
+export interface ViewportOptions {
+  /**
+   * Smallest zoom factor (default 0.1)
+   */
+  minZoom?: number;
+  /**
+   * Largest zoom factor (default 4)
+   */
+  maxZoom?: number;
+}
+
+export class Viewport {
+  private x = 0;
+  private y = 0;
+  private zoom = 1;
+  private width = 0;   // Screen size of the drawing area
+  private height = 0;
+  private minZoom: number;
+  private maxZoom: number;
+  private onChange?: (state: ViewportState) => void;
+
+  constructor(options: ViewportOptions = {}, onChange?: (state: ViewportState) => void) {
+    this.minZoom = options.minZoom || 0.1;
+    this.maxZoom = options.maxZoom || 4;
+    this.onChange = onChange;
+  }
+
+  public getState(): ViewportState {
+    return { x: this.x, y: this.y, zoom: this.zoom };
+  }
+
+  public setState(state: Partial<ViewportState>): void {
+    const x = state.x === undefined ? this.x : state.x;
+    const y = state.y === undefined ? this.y : state.y;
+    const zoom = state.zoom === undefined ? this.zoom : this.clampZoom(state.zoom);
+    if (x === this.x && y === this.y && zoom === this.zoom) return;
+    this.x = x;
+    this.y = y;
+    this.zoom = zoom;
+    if (this.onChange) {
+      this.onChange(this.getState());
+    }
+  }
+
+  public getSize(): { width: number; height: number } {
+    return { width: this.width, height: this.height };
+  }
+
+  public setSize(width: number, height: number): void {
+    this.width = width;
+    this.height = height;
+  }
+
+  public screenToWorld(point: Point): Point {
+    return { x: (point.x - this.x) / this.zoom, y: (point.y - this.y) / this.zoom };
+  }
+
+  public worldToScreen(point: Point): Point {
+    return { x: point.x * this.zoom + this.x, y: point.y * this.zoom + this.y };
+  }
+
+  /**
+   * Area of the world currently on screen
+   */
+  public getVisibleBounds(): Bounds {
+    const topLeft = this.screenToWorld({ x: 0, y: 0 });
+    return { x: topLeft.x, y: topLeft.y, width: this.width / this.zoom, height: this.height / this.zoom };
+  }
+
+  /**
+   * Move the view by a distance in screen pixels
+   */
+  public panBy(dx: number, dy: number): void {
+    this.setState({ x: this.x + dx, y: this.y + dy });
+  }
+
+  /**
+   * Zoom so the world point under the screen point stays where it is
+   * @param screenPoint Defaults to the center of the drawing area
+   */
+  public zoomTo(zoom: number, screenPoint: Point = { x: this.width / 2, y: this.height / 2 }): void {
+    const anchor = this.screenToWorld(screenPoint);
+    const next = this.clampZoom(zoom);
+    this.setState({ zoom: next, x: screenPoint.x - anchor.x * next, y: screenPoint.y - anchor.y * next });
+  }
+
+  public zoomBy(factor: number, screenPoint?: Point): void {
+    this.zoomTo(this.zoom * factor, screenPoint);
+  }
+
+  /**
+   * Center a world area and zoom until it fills the drawing area
+   * @param padding Screen pixels kept free around the area
+   */
+  public fitBounds(bounds: Bounds, padding = 40): void {
+    const width = Math.max(this.width - padding * 2, 1);
+    const height = Math.max(this.height - padding * 2, 1);
+    const zoom = this.clampZoom(Math.min(width / Math.max(bounds.width, 1), height / Math.max(bounds.height, 1)));
+    this.setState({
+      zoom,
+      x: this.width / 2 - (bounds.x + bounds.width / 2) * zoom,
+      y: this.height / 2 - (bounds.y + bounds.height / 2) * zoom
+    });
+  }
+
+  private clampZoom(zoom: number): number {
+    return Math.min(this.maxZoom, Math.max(this.minZoom, zoom));
+  }
+}
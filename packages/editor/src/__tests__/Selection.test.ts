@@ -0,0 +1,105 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { Editor } from '../Editor';
+
+describe('Editor selection', () => {
+  let editor: Editor;
+
+  // Three nodes in a row, 220 wide and 104 high with the default layout
+  beforeEach(() => {
+    editor = new Editor({
+      id: 'test-graph',
+      name: 'Test Graph',
+      nodes: [
+        { id: 'a', name: 'A', type: 'default', x: 0, y: 0, outputs: [{ id: 'a-out', name: 'out', type: 'output' }] },
+        {
+          id: 'b',
+          name: 'B',
+          type: 'default',
+          x: 300,
+          y: 0,
+          inputs: [{ id: 'b-in', name: 'in', type: 'input' }],
+          outputs: [{ id: 'b-out', name: 'out', type: 'output' }]
+        },
+        { id: 'c', name: 'C', type: 'default', x: 600, y: 300, inputs: [{ id: 'c-in', name: 'in', type: 'input' }] }
+      ],
+      edges: [
+        { id: 'e1', sourcePortId: 'a-out', targetPortId: 'b-in' },
+        { id: 'e2', sourcePortId: 'b-out', targetPortId: 'c-in' }
+      ]
+    });
+  });
+
+  it('should select, toggle and clear nodes and edges', () => {
+    const changed = vi.fn();
+    editor.on('selection:changed', changed);
+
+    editor.select({ nodes: ['a', 'missing'], edges: ['e1'] });
+    expect(editor.getSelection()).toEqual({ nodes: ['a'], edges: ['e1'] });
+
+    editor.toggleSelection({ nodes: ['a', 'b'] });
+    expect(editor.getSelection()).toEqual({ nodes: ['b'], edges: ['e1'] });
+    expect(editor.isNodeSelected('a')).toBe(false);
+
+    editor.select({ nodes: ['c'] }, 'add');
+    editor.select({ nodes: ['c'] }, 'add');
+    expect(editor.getSelection().nodes).toEqual(['b', 'c']);
+
+    editor.clearSelection();
+    editor.clearSelection();
+    expect(editor.getSelection()).toEqual({ nodes: [], edges: [] });
+    expect(changed).toHaveBeenCalledTimes(4);
+    expect(changed).toHaveBeenLastCalledWith({ nodes: [], edges: [] });
+  });
+
+  it('should drop removed items from the selection', () => {
+    editor.select({ nodes: ['a', 'b'], edges: ['e1', 'e2'] });
+
+    editor.removeNode('b');
+    expect(editor.getSelection()).toEqual({ nodes: ['a'], edges: [] });
+
+    editor.select({ nodes: ['a', 'c'] });
+    editor.removeNodes(['a', 'c']);
+    expect(editor.getSelection()).toEqual({ nodes: [], edges: [] });
+  });
+
+  it('should drag the selected nodes together', () => {
+    const dragEnd = vi.fn();
+    editor.on('node:dragend', dragEnd);
+    editor.select({ nodes: ['a', 'b'] });
+
+    editor.startDrag('b', 500, 500);
+    editor.handleDrag(520, 490);
+    editor.endDrag();
+
+    expect(editor.getNode('a')!.getPosition()).toEqual({ x: 20, y: -10 });
+    expect(editor.getNode('b')!.getPosition()).toEqual({ x: 320, y: -10 });
+    expect(editor.getNode('c')!.getPosition()).toEqual({ x: 600, y: 300 });
+    expect(dragEnd).toHaveBeenCalledWith(editor.getNode('b'), [editor.getNode('a'), editor.getNode('b')]);
+
+    // An unselected node is dragged on its own
+    editor.startDrag('c', 0, 0);
+    editor.handleDrag(5, 5);
+    editor.endDrag();
+    expect(editor.getNode('a')!.getPosition()).toEqual({ x: 20, y: -10 });
+    expect(editor.getNode('c')!.getPosition()).toEqual({ x: 605, y: 305 });
+  });
+
+  it('should select with a marquee', () => {
+    // Touches a and b; only e1 has both ends inside
+    editor.selectInBounds({ x: 100, y: 20, width: 300, height: 80 });
+    expect(editor.getSelection()).toEqual({ nodes: ['a', 'b'], edges: ['e1'] });
+
+    editor.selectInBounds({ x: 700, y: 350, width: 10, height: 10 }, 'add');
+    expect(editor.getSelection().nodes).toEqual(['a', 'b', 'c']);
+  });
+
+  it('should select with a lasso around node centers', () => {
+    // Outline around the center of b (410, 52) only
+    const lasso = [{ x: 380, y: 20 }, { x: 450, y: 30 }, { x: 460, y: 80 }, { x: 420, y: 100 }, { x: 370, y: 70 }];
+    editor.selectInPolygon(lasso);
+    expect(editor.getSelection().nodes).toEqual(['b']);
+
+    editor.selectInPolygon([{ x: 250, y: -50 }, { x: 1000, y: -50 }, { x: 1000, y: 600 }, { x: 250, y: 600 }]);
+    expect(editor.getSelection()).toEqual({ nodes: ['b', 'c'], edges: ['e2'] });
+  });
+});
@@ -0,0 +1,77 @@
+import { describe, it, expect, vi } from 'vitest';
+import { Editor } from '../Editor';
+import { Viewport } from '../Viewport';
+
+describe('Viewport', () => {
+  const viewport = () => {
+    const result = new Viewport({ minZoom: 0.5, maxZoom: 2 });
+    result.setSize(800, 600);
+    return result;
+  };
+
+  it('should convert between screen and world coordinates', () => {
+    const view = viewport();
+    view.setState({ x: 100, y: 50, zoom: 2 });
+
+    expect(view.worldToScreen({ x: 10, y: 20 })).toEqual({ x: 120, y: 90 });
+    expect(view.screenToWorld({ x: 120, y: 90 })).toEqual({ x: 10, y: 20 });
+    expect(view.getVisibleBounds()).toEqual({ x: -50, y: -25, width: 400, height: 300 });
+  });
+
+  it('should zoom around the cursor within the limits', () => {
+    const view = viewport();
+    view.panBy(30, 40);
+    const cursor = { x: 200, y: 150 };
+    const under = view.screenToWorld(cursor);
+
+    view.zoomBy(1.5, cursor);
+    expect(view.getState().zoom).toBe(1.5);
+    expect(view.worldToScreen(under)).toEqual(cursor);
+
+    view.zoomBy(10, cursor);
+    expect(view.getState().zoom).toBe(2);
+    view.zoomTo(0.01);
+    expect(view.getState().zoom).toBe(0.5);
+  });
+
+  it('should fit an area into view', () => {
+    const view = viewport();
+    view.fitBounds({ x: 1000, y: 1000, width: 360, height: 100 }, 40);
+
+    expect(view.getState().zoom).toBe(2);
+    expect(view.worldToScreen({ x: 1180, y: 1050 })).toEqual({ x: 400, y: 300 });
+  });
+
+  it('should drive editor drags and fitting', () => {
+    const editor = new Editor({
+      id: 'g',
+      name: 'G',
+      nodes: [
+        { id: 'a', name: 'A', type: 'default', x: 0, y: 0 },
+        { id: 'b', name: 'B', type: 'default', x: 1000, y: 500 }
+      ],
+      edges: []
+    });
+    const changed = vi.fn();
+    editor.on('viewport:changed', changed);
+    editor.getViewport().setSize(800, 600);
+
+    // Pointer moves are in screen pixels; at zoom 2 they move nodes half as far
+    editor.getViewport().setState({ zoom: 2 });
+    editor.startDrag('a', 100, 100);
+    editor.handleDrag(140, 120);
+    editor.endDrag();
+    expect(editor.getNode('a')!.getPosition()).toEqual({ x: 20, y: 10 });
+
+    expect(editor.fitToSelection()).toBe(false);
+    editor.select({ nodes: ['b'] });
+    expect(editor.fitToSelection()).toBe(true);
+    expect(editor.getViewport().getVisibleBounds().x).toBeLessThanOrEqual(1000);
+
+    editor.fitToContent();
+    const visible = editor.getViewport().getVisibleBounds();
+    expect(visible.x).toBeLessThanOrEqual(20);
+    expect(visible.x + visible.width).toBeGreaterThanOrEqual(1220);
+    expect(changed).toHaveBeenCalledTimes(3);
+  });
+});
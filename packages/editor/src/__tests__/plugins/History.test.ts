@@ -97,6 +97,43 @@ describe('History Plugin', () => {
     });
   });
 
+  describe('Property Operations', () => {
+    it('should track node property changes', () => {
+      editor.addNode(new Node({
+        id: 'node1',
+        name: 'Node 1',
+        type: 'test',
+        x: 0,
+        y: 0,
+        properties: { threshold: 1 }
+      }));
+      const node = editor.getNode('node1')!;
+
+      node.setProperty('threshold', 5);
+      expect(editor.toJSON().nodes[0].properties).toEqual({ threshold: 5 });
+
+      history.undo();
+      expect(node.getProperty('threshold')).toBe(1);
+
+      history.redo();
+      expect(node.getProperty('threshold')).toBe(5);
+    });
+
+    it('should remove a property again when undoing its first assignment', () => {
+      editor.addNode(new Node({ id: 'node1', name: 'Node 1', type: 'test', x: 0, y: 0, properties: { threshold: 1 } }));
+      const node = editor.getNode('node1')!;
+      const before = editor.toJSON().nodes[0].properties;
+
+      node.setProperty('color', 'red');
+      history.undo();
+      expect(editor.toJSON().nodes[0].properties).toStrictEqual(before);
+      expect(node.hasProperty('color')).toBe(false);
+
+      history.redo();
+      expect(node.getProperty('color')).toBe('red');
+    });
+  });
+
   describe('Edge Operations', () => {
     it('should track edge addition and removal', () => {
       // Create nodes with ports
@@ -147,6 +184,93 @@ describe('History Plugin', () => {
     });
   });
 
+  describe('Batch Operations', () => {
+    it('should undo and redo a batch as a single step', () => {
+      editor.addNodes([1, 2, 3].map(i => new Node({
+        id: `node${i}`,
+        name: `Node ${i}`,
+        type: 'test',
+        x: i * 100,
+        y: 0
+      })));
+      expect(editor.getNodes().length).toBe(3);
+
+      history.undo();
+      expect(editor.getNodes().length).toBe(0);
+      expect(history.canUndo()).toBe(false);
+
+      history.redo();
+      expect(editor.getNodes().map(node => node.getId())).toEqual(['node1', 'node2', 'node3']);
+    });
+
+    it('should record a group drag as one step', () => {
+      editor.addNodes([1, 2, 3].map(i => new Node({
+        id: `node${i}`,
+        name: `Node ${i}`,
+        type: 'test',
+        x: i * 100,
+        y: 0
+      })));
+      history.clear();
+      editor.select({ nodes: ['node1', 'node3'] });
+
+      editor.startDrag('node1', 0, 0);
+      editor.handleDrag(10, 5);
+      editor.handleDrag(40, 20);
+      editor.endDrag();
+      expect(editor.getNode('node3')!.getPosition()).toEqual({ x: 340, y: 20 });
+
+      // A click without moving adds nothing
+      editor.startDrag('node2', 0, 0);
+      editor.endDrag();
+
+      history.undo();
+      expect(history.canUndo()).toBe(false);
+      expect(editor.getNodes().map(node => node.getPosition())).toEqual([
+        { x: 100, y: 0 },
+        { x: 200, y: 0 },
+        { x: 300, y: 0 }
+      ]);
+
+      history.redo();
+      expect(editor.getNode('node1')!.getPosition()).toEqual({ x: 140, y: 20 });
+      expect(editor.getNode('node2')!.getPosition()).toEqual({ x: 200, y: 0 });
+    });
+  });
+
+  describe('Mutation Hooks', () => {
+    it('should undo and redo around the mutation hooks', () => {
+      editor.addNodes([1, 2].map(i => new Node({
+        id: `node${i}`,
+        name: `Node ${i}`,
+        type: 'test',
+        x: i * 100,
+        y: 0
+      })));
+      editor.startDrag('node1', 0, 0);
+      editor.handleDrag(40, 20);
+      editor.endDrag();
+
+      editor.on('node:adding', hook => {
+        hook.data = { ...hook.data, id: `app-${hook.data.id}` };
+      });
+      editor.on('node:removing', hook => hook.cancel('Nodes are locked'));
+      editor.on('node:moving', (_node, _x, _y, move) => move.cancel('Nodes are locked'));
+
+      history.undo();
+      expect(editor.getNode('node1')!.getPosition()).toEqual({ x: 100, y: 0 });
+
+      history.undo();
+      expect(editor.getNodes()).toEqual([]);
+
+      history.redo();
+      expect(editor.getNodes().map(node => node.getId())).toEqual(['node1', 'node2']);
+
+      history.redo();
+      expect(editor.getNode('node1')!.getPosition()).toEqual({ x: 140, y: 20 });
+    });
+  });
+
   describe('Stack Management', () => {
     it('should respect max stack size', () => {
       const maxStackSize = 3;
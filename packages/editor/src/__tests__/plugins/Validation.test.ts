@@ -0,0 +1,107 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { Editor } from '../../Editor';
+import { Validation } from '../../plugins/Validation';
+import { GraphValidator, Node, Port, ValidationRule } from '@logic.js/core';
+
+describe('Validation Plugin', () => {
+  let editor: Editor;
+  let runs: ReturnType<typeof vi.fn>;
+  let validation: Validation;
+
+  // Reports every node named Bad and counts how often it runs
+  const createRule = (): ValidationRule => ({
+    id: 'no-bad',
+    severity: 'error',
+    validate(graph, report) {
+      runs();
+      graph.getNodes()
+        .filter(node => node.getName() === 'Bad')
+        .forEach(node => report({ message: 'Bad node', nodeIds: [node.getId()] }));
+    }
+  });
+
+  const node = (id: string, name = id) => new Node({
+    id,
+    name,
+    type: 'default',
+    x: 0,
+    y: 0,
+    inputs: [{ id: `${id}-in`, name: 'in', type: 'input' }],
+    outputs: [{ id: `${id}-out`, name: 'out', type: 'output' }]
+  });
+
+  beforeEach(() => {
+    editor = new Editor({ id: 'test-graph', name: 'Test Graph', nodes: [], edges: [] });
+    runs = vi.fn();
+    validation = new Validation({ validator: new GraphValidator([createRule()]) });
+  });
+
+  it('should validate on install and report through validation:change', () => {
+    const changed = vi.fn();
+    editor.on('validation:change', changed);
+
+    editor.use(validation);
+    expect(runs).toHaveBeenCalledTimes(1);
+    expect(changed).toHaveBeenLastCalledWith([]);
+
+    editor.addNode(node('a', 'Bad'));
+    const diagnostics = [{ ruleId: 'no-bad', severity: 'error', message: 'Bad node', nodeIds: ['a'] }];
+    expect(changed).toHaveBeenLastCalledWith(diagnostics);
+    expect(validation.getDiagnostics()).toEqual(diagnostics);
+  });
+
+  it('should validate again after every structural change', () => {
+    editor.use(validation);
+    const a = editor.addNode(node('a'))!;
+    const b = editor.addNode(node('b'))!;
+    const edge = editor.addEdge(a.getOutput('a-out')!, b.getInput('b-in')!)!;
+    editor.removeEdge(edge.getId());
+    a.addInput(new Port({ id: 'a-extra', name: 'extra', type: 'input', nodeId: 'a' }));
+    a.removeInput('a-extra');
+    editor.removeNode('b');
+    // Adding or removing a port also resizes its node
+    expect(runs).toHaveBeenCalledTimes(10);
+
+    // A transaction is validated once, when its batch event arrives
+    editor.addNodes([node('c'), node('d')]);
+    expect(runs).toHaveBeenCalledTimes(11);
+  });
+
+  it('should validate again when nodes or ports are edited', () => {
+    const changed = vi.fn();
+    editor.on('validation:change', changed);
+    editor.use(validation);
+    const a = editor.addNode(node('a'))!;
+
+    a.setName('Bad');
+    expect(changed).toHaveBeenLastCalledWith([
+      { ruleId: 'no-bad', severity: 'error', message: 'Bad node', nodeIds: ['a'] }
+    ]);
+    a.setProperty('label', 'A');
+    a.setSize(240, 120);
+    a.getInput('a-in')!.setDataType('number');
+    expect(runs).toHaveBeenCalledTimes(6);
+  });
+
+  it('should stop listening once destroyed', () => {
+    editor.use(validation);
+    const changed = vi.fn();
+    editor.on('validation:change', changed);
+
+    editor.unuse('validation');
+    const a = editor.addNode(node('a', 'Bad'))!;
+    const b = editor.addNode(node('b'))!;
+    editor.addEdge(a.getOutput('a-out')!, b.getInput('b-in')!);
+    a.removeInput('a-in');
+    a.setName('Worse');
+    a.setProperty('label', 'A');
+    a.setSize(240, 120);
+    a.getOutput('a-out')!.setDataType('number');
+    editor.addNodes([node('c'), node('d')]);
+    editor.removeNode('a');
+
+    expect(runs).toHaveBeenCalledTimes(1);
+    expect(changed).not.toHaveBeenCalled();
+    expect(validation.getDiagnostics()).toEqual([]);
+  });
+});
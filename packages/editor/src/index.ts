@@ -1,3 +1,6 @@
 export { Editor } from './Editor';
+export type { EditorOptions, EditorSelection, SelectionMode } from './Editor';
+export { Viewport } from './Viewport';
+export type { ViewportOptions, ViewportState } from './Viewport';
 export { SvgRenderer } from './SvgRenderer';
-export { History } from './plugins';
+export { History, Validation } from './plugins';
@@ -1,13 +1,28 @@
 import { Editor } from '../Editor';
 import { Plugin } from '.';
-import { Node, Edge } from '@logic.js/core';
+import { Node, Edge, GraphChange, applyChanges, revertChanges } from '@logic.js/core';
 
-interface NodeMovedAction {
-  type: 'node:moved';
+// All nodes moved by one drag
+interface NodesMovedAction {
+  type: 'nodes:moved';
+  data: {
+    moves: Array<{
+      id: string;
+      from: { x: number; y: number };
+      to: { x: number; y: number };
+    }>;
+  };
+}
+
+interface NodePropertyAction {
+  type: 'node:property';
   data: {
     id: string;
-    from: { x: number; y: number };
-    to: { x: number; y: number };
+    key: string;
+    from: any;
+    to: any;
+    existed: boolean;  // Whether the key was set before the change
+    exists: boolean;   // Whether the key is set after the change
   };
 }
 
@@ -39,12 +54,22 @@ interface EdgeRemovedAction {
   };
 }
 
+// Changes of one transaction, undone and redone together
+interface BatchAction {
+  type: 'batch';
+  data: {
+    changes: GraphChange[];
+  };
+}
+
 export type HistoryAction =
-  | NodeMovedAction
+  | NodesMovedAction
+  | NodePropertyAction
   | NodeAddedAction
   | NodeRemovedAction
   | EdgeAddedAction
-  | EdgeRemovedAction;
+  | EdgeRemovedAction
+  | BatchAction;
 
 export class History implements Plugin {
   name = 'history';
@@ -64,21 +89,39 @@ export class History implements Plugin {
     }
     this.editor = editor;
 
-    let lastNodePosition: { x: number; y: number } = { x: 0, y: 0 };
+    let dragOrigins = new Map<string, { x: number; y: number }>();
 
-    editor.on('node:dragstart', (node: Node) => {
-      lastNodePosition = { x: node.getPosition().x, y: node.getPosition().y };
+    editor.on('node:dragstart', (_node: Node, nodes: Node[]) => {
+      dragOrigins = new Map(nodes.map(node => [node.getId(), { ...node.getPosition() }]));
     });
 
-    // Listen for node movement events
-    editor.on('node:dragend', (node: Node) => {
+    // One entry per drag, however many nodes it moved
+    editor.on('node:dragend', (_node: Node, nodes: Node[]) => {
       if (this.isUndoRedo) return;
+      const moves = nodes
+        .filter(node => dragOrigins.has(node.getId()))
+        .map(node => ({ id: node.getId(), from: dragOrigins.get(node.getId())!, to: { ...node.getPosition() } }))
+        .filter(move => move.from.x !== move.to.x || move.from.y !== move.to.y);
+      dragOrigins = new Map();
+      if (moves.length === 0) return;
       this.pushAction({
-        type: 'node:moved',
+        type: 'nodes:moved',
+        data: { moves }
+      });
+    });
+
+    // Listen for node property changes
+    editor.on('node:property:changed', (node: Node, key: string, value: any, previousValue: any, existed: boolean, exists: boolean) => {
+      if (this.isUndoRedo) return;
+      this.pushAction({
+        type: 'node:property',
         data: {
           id: node.getId(),
-          from: { ...lastNodePosition },
-          to: { ...node.getPosition() }
+          key,
+          from: previousValue,
+          to: value,
+          existed,
+          exists
         }
       });
     });
@@ -126,6 +169,17 @@ export class History implements Plugin {
         }
       });
     });
+
+    // Listen for transactions
+    editor.on('batch', (changes: GraphChange[]) => {
+      if (this.isUndoRedo) return;
+      this.pushAction({
+        type: 'batch',
+        data: {
+          changes
+        }
+      });
+    });
   }
 
   destroy(): void {
@@ -150,10 +204,18 @@ export class History implements Plugin {
     this.redoStack.push(action);
 
     switch (action.type) {
-      case 'node:moved': {
+      case 'nodes:moved': {
+        this.editor.transaction(() => action.data.moves.forEach(move => {
+          this.editor.getNode(move.id)?.restorePosition(move.from.x, move.from.y);
+        }));
+        break;
+      }
+      case 'node:property': {
         const node = this.editor.getNode(action.data.id);
-        if (node) {
-          node.setPosition(action.data.from.x, action.data.from.y);
+        if (node && action.data.existed) {
+          node.setProperty(action.data.key, action.data.from);
+        } else if (node) {
+          node.removeProperty(action.data.key);
         }
         break;
       }
@@ -187,6 +249,10 @@ export class History implements Plugin {
         }
         break;
       }
+      case 'batch': {
+        this.editor.transaction(() => revertChanges(this.editor, action.data.changes));
+        break;
+      }
     }
 
     this.isUndoRedo = false;
@@ -201,10 +267,18 @@ export class History implements Plugin {
     this.undoStack.push(action);
 
     switch (action.type) {
-      case 'node:moved': {
+      case 'nodes:moved': {
+        this.editor.transaction(() => action.data.moves.forEach(move => {
+          this.editor.getNode(move.id)?.restorePosition(move.to.x, move.to.y);
+        }));
+        break;
+      }
+      case 'node:property': {
         const node = this.editor.getNode(action.data.id);
-        if (node) {
-          node.setPosition(action.data.to.x, action.data.to.y);
+        if (node && action.data.exists) {
+          node.setProperty(action.data.key, action.data.to);
+        } else if (node) {
+          node.removeProperty(action.data.key);
         }
         break;
       }
@@ -236,6 +310,10 @@ export class History implements Plugin {
         }
         break;
       }
+      case 'batch': {
+        this.editor.transaction(() => applyChanges(this.editor, action.data.changes));
+        break;
+      }
     }
 
     this.isUndoRedo = false;
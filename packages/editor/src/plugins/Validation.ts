@@ -0,0 +1,73 @@
+import { Editor } from '../Editor';
+import { Plugin } from '.';
+import { Diagnostic, GraphValidator, ValidationRule } from '@logic.js/core';
+
+export interface ValidationOptions {
+  validator?: GraphValidator;
+  rules?: ValidationRule[];  // Extra rules added to the validator
+}
+
+export class Validation implements Plugin {
+  name = 'validation';
+  private editor!: Editor;
+  private validator: GraphValidator;
+  private diagnostics: Diagnostic[] = [];
+  private handleChange = () => this.run();
+
+  constructor(options: ValidationOptions = {}) {
+    this.validator = options.validator || new GraphValidator();
+    (options.rules || []).forEach(rule => this.validator.addRule(rule));
+  }
+
+  install(editor: Editor): void {
+    if (this.editor) {
+      throw new Error('Validation plugin is already installed');
+    }
+    this.editor = editor;
+
+    // Re-validate on every structural change and on edits that rules may inspect
+    editor.on('node:added', this.handleChange);
+    editor.on('node:removed', this.handleChange);
+    editor.on('edge:added', this.handleChange);
+    editor.on('edge:removed', this.handleChange);
+    editor.on('port:added', this.handleChange);
+    editor.on('port:removed', this.handleChange);
+    editor.on('port:changed', this.handleChange);
+    editor.on('node:property:changed', this.handleChange);
+    editor.on('node:renamed', this.handleChange);
+    editor.on('node:resized', this.handleChange);
+    editor.on('batch', this.handleChange);
+
+    this.run();
+  }
+
+  destroy(): void {
+    this.editor.off('node:added', this.handleChange);
+    this.editor.off('node:removed', this.handleChange);
+    this.editor.off('edge:added', this.handleChange);
+    this.editor.off('edge:removed', this.handleChange);
+    this.editor.off('port:added', this.handleChange);
+    this.editor.off('port:removed', this.handleChange);
+    this.editor.off('port:changed', this.handleChange);
+    this.editor.off('node:property:changed', this.handleChange);
+    this.editor.off('node:renamed', this.handleChange);
+    this.editor.off('node:resized', this.handleChange);
+    this.editor.off('batch', this.handleChange);
+    this.diagnostics = [];
+    this.editor = null as any;
+  }
+
+  run(): Diagnostic[] {
+    this.diagnostics = this.validator.validate(this.editor);
+    this.editor.emit('validation:change', this.diagnostics);
+    return this.diagnostics;
+  }
+
+  getDiagnostics(): Diagnostic[] {
+    return this.diagnostics;
+  }
+
+  getValidator(): GraphValidator {
+    return this.validator;
+  }
+}
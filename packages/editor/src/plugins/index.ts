@@ -6,4 +6,5 @@ export interface Plugin {
   destroy?(): void;
 }
 
-export * from './History'; 
+export * from './History';
+export * from './Validation';